@@ -1,10 +1,31 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir as osHomedir } from 'os';
-import type { MCPServerConfig } from '../types/index.js';
+import type {
+  CompressionProviderConfig,
+  MCPServerConfig,
+  SchemaMinificationLevel,
+  ToolOverrideConfig,
+} from '../types/index.js';
 import { serverConfigSchema, type ServerConfigJSON } from './schema.js';
 import Ajv from 'ajv';
 
+/**
+ * Default separator between server and tool names in exposed names (e.g. "github__create_issue")
+ */
+export const DEFAULT_NAMESPACE_SEPARATOR = '__';
+
+/**
+ * Separator between the server name and the backend URI in namespaced resource URIs
+ * (e.g. "docs+file:///guide.md")
+ */
+export const RESOURCE_URI_SEPARATOR = '+';
+
+/**
+ * Prefix of the proxy's own management tools (independent of the namespace separator)
+ */
+const MANAGEMENT_TOOL_PREFIX = 'mcp-compression-proxy__';
+
 const ajv = new Ajv({ allErrors: true });
 const validate = ajv.compile(serverConfigSchema);
 
@@ -93,7 +114,7 @@ function loadJSONConfig(filePath: string): ServerConfigJSON | null {
  * User-level: ~/.mcp-compression-proxy/servers.json
  * Project-level: ./servers.json
  */
-function getConfigPaths(): { user: string; project: string } {
+export function getConfigPaths(): { user: string; project: string } {
   return {
     user: join(homedir(), '.mcp-compression-proxy', 'servers.json'),
     project: join(process.cwd(), 'servers.json'),
@@ -132,6 +153,12 @@ export type ConfigResult = {
   excludePatterns: string[];
   noCompressPatterns: string[];
   defaultTimeout?: number;
+  compressPrompts?: boolean;
+  namespaceSeparator?: string; // Joins server and tool names (default: "__")
+  schemaMinification?: SchemaMinificationLevel; // Stripping of advertised inputSchemas (default: "none")
+  compression?: CompressionProviderConfig; // Background compression provider, if configured
+  toolOverrides?: Record<string, ToolOverrideConfig>; // Tool aliases keyed by exposed name
+  profile?: string; // Active profile, if one was selected
 } | null;
 
 /**
@@ -139,13 +166,21 @@ export type ConfigResult = {
  * 1. Load user-level config and collect patterns
  * 2. Load project-level config and append servers
  * 3. Aggregate exclude and noCompress patterns from both configs
+ * 4. Apply the selected profile, if any
+ * @param profile - Name of the profile to apply (throws if it is not defined)
  */
-export function loadJSONServers(): ConfigResult {
+export function loadJSONServers(profile?: string): ConfigResult {
   const paths = getConfigPaths();
   let aggregatedServers: MCPServerConfig[] = [];
   let aggregatedExcludePatterns: string[] = [];
   let aggregatedNoCompressPatterns: string[] = [];
   let defaultTimeout: number | undefined;
+  let compressPrompts: boolean | undefined;
+  let namespaceSeparator = DEFAULT_NAMESPACE_SEPARATOR;
+  let schemaMinification: SchemaMinificationLevel | undefined;
+  let compression: CompressionProviderConfig | undefined;
+  let toolOverrides: Record<string, ToolOverrideConfig> = {};
+  let profiles: NonNullable<ServerConfigJSON['profiles']> = {};
   let hasAnyConfig = false;
 
   // Step 1: Load user-level config
@@ -165,6 +200,24 @@ export function loadJSONServers(): ConfigResult {
     if (userConfig.defaultTimeout) {
       defaultTimeout = userConfig.defaultTimeout;
     }
+    if (userConfig.compressPrompts !== undefined) {
+      compressPrompts = userConfig.compressPrompts;
+    }
+    if (userConfig.namespaceSeparator) {
+      namespaceSeparator = userConfig.namespaceSeparator;
+    }
+    if (userConfig.schemaMinification) {
+      schemaMinification = userConfig.schemaMinification;
+    }
+    if (userConfig.compression) {
+      compression = userConfig.compression;
+    }
+    if (userConfig.toolOverrides) {
+      toolOverrides = { ...userConfig.toolOverrides };
+    }
+    if (userConfig.profiles) {
+      profiles = { ...userConfig.profiles };
+    }
   } else {
     console.error(`[Config] No user-level config found at: ${paths.user}`);
   }
@@ -193,6 +246,36 @@ export function loadJSONServers(): ConfigResult {
     if (projectConfig.defaultTimeout) {
       defaultTimeout = projectConfig.defaultTimeout;
     }
+
+    // Project-level compressPrompts overrides user-level
+    if (projectConfig.compressPrompts !== undefined) {
+      compressPrompts = projectConfig.compressPrompts;
+    }
+
+    // Project-level namespaceSeparator overrides user-level
+    if (projectConfig.namespaceSeparator) {
+      namespaceSeparator = projectConfig.namespaceSeparator;
+    }
+
+    // Project-level schemaMinification overrides user-level
+    if (projectConfig.schemaMinification) {
+      schemaMinification = projectConfig.schemaMinification;
+    }
+
+    // Project-level compression provider overrides user-level
+    if (projectConfig.compression) {
+      compression = projectConfig.compression;
+    }
+
+    // Project-level tool overrides replace user-level overrides of the same alias
+    if (projectConfig.toolOverrides) {
+      toolOverrides = { ...toolOverrides, ...projectConfig.toolOverrides };
+    }
+
+    // Project-level profiles replace user-level profiles of the same name
+    if (projectConfig.profiles) {
+      profiles = { ...profiles, ...projectConfig.profiles };
+    }
   } else {
     console.error(`[Config] No project-level config found at: ${paths.project}`);
   }
@@ -201,6 +284,72 @@ export function loadJSONServers(): ConfigResult {
     return null;
   }
 
+  // Exposed names are split at the first separator, so server names must not contain it
+  const ambiguous = aggregatedServers.filter(s => s.name.includes(namespaceSeparator));
+  if (ambiguous.length > 0) {
+    throw new Error(
+      `Server names must not contain the namespace separator '${namespaceSeparator}': ` +
+      ambiguous.map(s => s.name).join(', ')
+    );
+  }
+
+  // Namespaced resource URIs are split at the first separator as well
+  const unroutable = aggregatedServers.filter(s => s.name.includes(RESOURCE_URI_SEPARATOR));
+  if (unroutable.length > 0) {
+    throw new Error(
+      `Server names must not contain the resource URI separator '${RESOURCE_URI_SEPARATOR}': ` +
+      unroutable.map(s => s.name).join(', ')
+    );
+  }
+
+  // A name that extends another by a piece the separator can absorb exposes the same names
+  // (with '__', 'a' + '__' + '_x' and 'a_' + '__' + 'x' are both 'a___x')
+  const serverNames = Array.from(new Set(aggregatedServers.map(s => s.name)));
+  const colliding = serverNames.flatMap(name =>
+    serverNames
+      .filter(other => other.length > name.length && other.startsWith(name))
+      .filter(other => `${other.slice(name.length)}${namespaceSeparator}`.startsWith(namespaceSeparator))
+      .map(other => `${name} and ${other}`)
+  );
+  if (colliding.length > 0) {
+    throw new Error(
+      `Server names produce colliding tool names with the namespace separator '${namespaceSeparator}': ` +
+      colliding.join(', ')
+    );
+  }
+
+  // Aliases can't take over management tool names
+  const reservedAliases = Object.keys(toolOverrides).filter(alias => alias.startsWith(MANAGEMENT_TOOL_PREFIX));
+  if (reservedAliases.length > 0) {
+    throw new Error(
+      `Tool aliases must not use the management tool prefix '${MANAGEMENT_TOOL_PREFIX}': ` +
+      reservedAliases.join(', ')
+    );
+  }
+
+  // Step 4: Narrow servers and replace patterns with the selected profile
+  if (profile) {
+    const selected = profiles[profile];
+    if (!selected) {
+      const available = Object.keys(profiles);
+      throw new Error(
+        `Unknown profile '${profile}'. Available profiles: ${available.length > 0 ? available.join(', ') : 'none'}`
+      );
+    }
+
+    if (selected.servers) {
+      aggregatedServers = aggregatedServers.filter(s => matchesIgnorePattern(s.name, selected.servers!));
+    }
+    if (selected.excludeTools) {
+      aggregatedExcludePatterns = [...selected.excludeTools];
+    }
+    if (selected.noCompressTools) {
+      aggregatedNoCompressPatterns = [...selected.noCompressTools];
+    }
+
+    console.error(`[Config] Active profile: ${profile} (${aggregatedServers.length} servers)`);
+  }
+
   // Log disabled servers
   const disabled = aggregatedServers.filter(s => s.enabled === false);
   if (disabled.length > 0) {
@@ -229,6 +378,12 @@ export function loadJSONServers(): ConfigResult {
     excludePatterns: aggregatedExcludePatterns,
     noCompressPatterns: aggregatedNoCompressPatterns,
     defaultTimeout,
+    compressPrompts,
+    namespaceSeparator,
+    schemaMinification,
+    compression,
+    toolOverrides,
+    profile,
   };
 }
 
@@ -17,7 +17,7 @@ export const serverConfigSchema = {
           },
           command: {
             type: 'string',
-            description: 'Command to execute',
+            description: 'Command to execute (stdio servers)',
             minLength: 1,
           },
           args: {
@@ -42,9 +42,145 @@ export const serverConfigSchema = {
             type: 'number',
             description: 'Server timeout in seconds',
           },
+          restartPolicy: {
+            type: 'string',
+            description: 'When to reconnect a crashed or unreachable server: "always", "on-failure" (default) or "never"',
+            enum: ['always', 'on-failure', 'never'],
+          },
+          maxRestarts: {
+            type: 'integer',
+            description: 'Maximum consecutive restart attempts for the "on-failure" policy (default: 5)',
+            minimum: 0,
+          },
+          startMode: {
+            type: 'string',
+            description: 'When to start the server: "eager" (default, at proxy startup) or "lazy" (on the first tool call)',
+            enum: ['eager', 'lazy'],
+          },
+          idleTimeout: {
+            type: 'number',
+            description: 'Seconds without tool calls after which a lazy server is shut down',
+            minimum: 1,
+          },
+          callTimeout: {
+            type: 'number',
+            description: 'Tool call timeout in seconds (default: 60)',
+            exclusiveMinimum: 0,
+          },
+          toolCallTimeouts: {
+            type: 'object',
+            description: 'Per-tool call timeouts in seconds, keyed by backend tool name (overrides callTimeout)',
+            additionalProperties: {
+              type: 'number',
+              exclusiveMinimum: 0,
+            },
+          },
+          maxConcurrentCalls: {
+            type: 'integer',
+            description: 'Maximum tool calls running at once on this server; further calls are queued',
+            minimum: 1,
+          },
+          maxQueueLength: {
+            type: 'integer',
+            description: 'Maximum queued calls when maxConcurrentCalls is reached; further calls are rejected',
+            minimum: 0,
+          },
+          circuitBreaker: {
+            type: 'object',
+            description: 'Fail fast (and optionally hide tools) while the server keeps failing',
+            properties: {
+              failureThreshold: {
+                type: 'number',
+                description: 'Failure rate over the window that opens the circuit (default: 0.5)',
+                exclusiveMinimum: 0,
+                maximum: 1,
+              },
+              minimumCalls: {
+                type: 'integer',
+                description: 'Calls in the window before the failure rate is evaluated (default: 5)',
+                minimum: 1,
+              },
+              windowSize: {
+                type: 'integer',
+                description: 'Number of most recent calls considered (default: 10)',
+                minimum: 1,
+              },
+              resetTimeout: {
+                type: 'number',
+                description: 'Seconds the circuit stays open before a probe call (default: 30)',
+                minimum: 1,
+              },
+              hideTools: {
+                type: 'boolean',
+                description: 'Remove the server\'s tools from tools/list while the circuit is open',
+              },
+            },
+            additionalProperties: false,
+          },
+          healthCheckInterval: {
+            type: 'number',
+            description: 'Seconds between ping health checks (default: 30, 0 disables)',
+            minimum: 0,
+          },
+          logToFile: {
+            type: 'boolean',
+            description: 'Mirror the server\'s stderr to ~/.mcp-compression-proxy/logs/<name>.log (rotated)',
+          },
+          sampling: {
+            type: 'object',
+            description: 'Relay sampling/createMessage requests from this server to the client (opt-in)',
+            properties: {
+              maxRequestsPerMinute: {
+                type: 'integer',
+                description: 'Sampling requests relayed per rolling minute; further ones are rejected (default: 10)',
+                minimum: 1,
+              },
+            },
+            additionalProperties: false,
+          },
+          roots: {
+            type: 'object',
+            description: 'Override or restrict the workspace roots reported to this server',
+            properties: {
+              override: {
+                type: 'array',
+                description: 'Fixed roots (URIs or absolute paths) reported instead of the client\'s roots',
+                items: { type: 'string' },
+              },
+              allow: {
+                type: 'array',
+                description: 'Wildcard patterns a client root URI must match to be reported (e.g. "file:///home/me/projects/*")',
+                items: { type: 'string' },
+              },
+            },
+            additionalProperties: false,
+          },
+          replicas: {
+            type: 'integer',
+            description: 'Number of identical instances to run behind this server name (default: 1)',
+            minimum: 1,
+          },
+          loadBalancing: {
+            type: 'string',
+            description: 'How tool calls are routed over replicas: "round-robin" (default) or "least-busy"',
+            enum: ['round-robin', 'least-busy'],
+          },
           type: {
             type: 'string',
-            description: 'Server transport type (usually "stdio")',
+            description: 'Server transport type: "stdio" (default), "http" (Streamable HTTP) or "sse"',
+            enum: ['stdio', 'http', 'sse'],
+          },
+          url: {
+            type: 'string',
+            description: 'Server endpoint URL (http and sse servers)',
+            minLength: 1,
+          },
+          headers: {
+            type: 'object',
+            description: 'Extra HTTP headers sent with every request (http and sse servers)',
+            additionalProperties: {
+              type: 'string',
+            },
           },
           autoApprove: {
             type: 'array',
@@ -54,13 +190,19 @@ export const serverConfigSchema = {
             },
           },
         },
-        required: ['name', 'command'],
+        required: ['name'],
+        if: {
+          properties: { type: { enum: ['http', 'sse'] } },
+          required: ['type'],
+        },
+        then: { required: ['url'] },
+        else: { required: ['command'] },
         additionalProperties: true,
       },
     },
     excludeTools: {
       type: 'array',
-      description: 'Tool name patterns to exclude from tool list entirely (supports wildcards, case-insensitive). Examples: "server__*" (all tools from server), "*__set*" (tools with "set" in name)',
+      description: 'Tool name patterns to exclude from tool list entirely (supports wildcards, case-insensitive). Examples: "server__*" (all tools from server), "*__set*" (tools with "set" in name). Also applied to namespaced resource URIs (e.g. "docs+file:///private/*")',
       items: {
         type: 'string',
       },
@@ -77,6 +219,129 @@ export const serverConfigSchema = {
       description: 'Default timeout in seconds for all servers (can be overridden per-server). Default is 30 seconds if not specified.',
       minimum: 1,
     },
+    compressPrompts: {
+      type: 'boolean',
+      description: 'Serve compressed prompt descriptions from the compression cache and include prompts in the compression workflow (default false)',
+    },
+    namespaceSeparator: {
+      type: 'string',
+      description: 'Separator between server and tool names in exposed names (default "__"). Server names must not contain it.',
+      minLength: 1,
+    },
+    compression: {
+      type: 'object',
+      description: 'LLM provider used to compress uncached tool descriptions in the background',
+      properties: {
+        provider: {
+          type: 'string',
+          description: 'Provider type: "openai" (any OpenAI-compatible chat completions API, including Ollama and llama.cpp) or "sampling" (the connected client\'s model through MCP sampling)',
+          enum: ['openai', 'sampling'],
+        },
+        baseUrl: {
+          type: 'string',
+          description: 'API base URL, e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1" (openai)',
+          minLength: 1,
+        },
+        model: {
+          type: 'string',
+          description: 'Model name (openai)',
+          minLength: 1,
+        },
+        batchSize: {
+          type: 'integer',
+          description: 'Tools compressed per sampling request (sampling, default: 10)',
+          minimum: 1,
+        },
+        maxTokens: {
+          type: 'integer',
+          description: 'Token budget per sampling request; batches are cut to fit (sampling, default: 4000)',
+          minimum: 1,
+        },
+        apiKey: {
+          type: 'string',
+          description: 'API key sent as a Bearer token (supports ${VAR} expansion)',
+        },
+        prompt: {
+          type: 'string',
+          description: 'System prompt replacing the default compression instructions',
+          minLength: 1,
+        },
+        timeout: {
+          type: 'number',
+          description: 'Request timeout in seconds (default: 60 for openai, 120 for sampling)',
+          exclusiveMinimum: 0,
+        },
+      },
+      required: ['provider'],
+      if: {
+        properties: { provider: { const: 'openai' } },
+      },
+      then: { required: ['baseUrl', 'model'] },
+      additionalProperties: false,
+    },
+    schemaMinification: {
+      type: 'string',
+      description: 'How much of the advertised tool inputSchemas is stripped: "none" (default), "safe" or "aggressive". Expanded tools show the full schema.',
+      enum: ['none', 'safe', 'aggressive'],
+    },
+    toolOverrides: {
+      type: 'object',
+      description: 'Aliases exposing a backend tool under another name, keyed by the exposed name, with fixed or default arguments',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          server: {
+            type: 'string',
+            description: 'Name of the backend server',
+            minLength: 1,
+          },
+          tool: {
+            type: 'string',
+            description: 'Name of the backend tool',
+            minLength: 1,
+          },
+          description: {
+            type: 'string',
+            description: 'Description shown instead of the backend tool\'s description',
+          },
+          fixedArguments: {
+            type: 'object',
+            description: 'Arguments always sent to the backend tool; they are removed from the advertised input schema',
+          },
+          defaultArguments: {
+            type: 'object',
+            description: 'Arguments sent when the client omits them; they become optional in the advertised input schema',
+          },
+        },
+        required: ['server', 'tool'],
+        additionalProperties: false,
+      },
+    },
+    profiles: {
+      type: 'object',
+      description: 'Named subsets of the configuration, selected with --profile or MCP_COMPRESSION_PROXY_PROFILE',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          servers: {
+            type: 'array',
+            description: 'Names (or wildcard patterns) of the servers to run in this profile (default: all servers)',
+            items: { type: 'string' },
+          },
+          excludeTools: {
+            type: 'array',
+            description: 'Replaces the excludeTools patterns while the profile is active',
+            items: { type: 'string' },
+          },
+          noCompressTools: {
+            type: 'array',
+            description: 'Replaces the noCompressTools patterns while the profile is active',
+            items: { type: 'string' },
+          },
+        },
+        additionalProperties: false,
+      },
+    },
   },
   required: ['mcpServers'],
   additionalProperties: false,
@@ -85,15 +350,72 @@ export const serverConfigSchema = {
 export type ServerConfigJSON = {
   mcpServers: Array<{
     name: string;
-    command: string;
+    command?: string;
     args?: string[];
     env?: Record<string, string>;
+    url?: string;
+    headers?: Record<string, string>;
     enabled?: boolean;
     timeout?: number;
-    type?: string;
+    restartPolicy?: 'always' | 'on-failure' | 'never';
+    maxRestarts?: number;
+    startMode?: 'eager' | 'lazy';
+    idleTimeout?: number;
+    callTimeout?: number;
+    toolCallTimeouts?: Record<string, number>;
+    maxConcurrentCalls?: number;
+    maxQueueLength?: number;
+    circuitBreaker?: {
+      failureThreshold?: number;
+      minimumCalls?: number;
+      windowSize?: number;
+      resetTimeout?: number;
+      hideTools?: boolean;
+    };
+    healthCheckInterval?: number;
+    logToFile?: boolean;
+    sampling?: {
+      maxRequestsPerMinute?: number;
+    };
+    roots?: {
+      override?: string[];
+      allow?: string[];
+    };
+    replicas?: number;
+    loadBalancing?: 'round-robin' | 'least-busy';
+    type?: 'stdio' | 'http' | 'sse';
     autoApprove?: string[];
   }>;
   excludeTools?: string[];
   noCompressTools?: string[];
   defaultTimeout?: number;
+  compressPrompts?: boolean;
+  namespaceSeparator?: string;
+  compression?: {
+    provider: 'openai';
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    prompt?: string;
+    timeout?: number;
+  } | {
+    provider: 'sampling';
+    batchSize?: number;
+    maxTokens?: number;
+    prompt?: string;
+    timeout?: number;
+  };
+  schemaMinification?: 'none' | 'safe' | 'aggressive';
+  toolOverrides?: Record<string, {
+    server: string;
+    tool: string;
+    description?: string;
+    fixedArguments?: Record<string, unknown>;
+    defaultArguments?: Record<string, unknown>;
+  }>;
+  profiles?: Record<string, {
+    servers?: string[];
+    excludeTools?: string[];
+    noCompressTools?: string[];
+  }>;
 };
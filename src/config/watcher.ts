@@ -0,0 +1,127 @@
+import { watchFile, unwatchFile, type Stats } from 'fs';
+import { isDeepStrictEqual } from 'util';
+import type { Logger } from 'pino';
+import type { MCPServerConfig } from '../types/index.js';
+import { getConfigPaths, loadJSONServers, type ConfigResult } from './loader.js';
+
+export type ServerConfigDiff = {
+  added: MCPServerConfig[];
+  removed: MCPServerConfig[];
+  changed: MCPServerConfig[];
+};
+
+/**
+ * Diff two server lists by name.
+ * Disabled servers are treated as absent, so toggling `enabled` adds or removes a server.
+ */
+export function diffServerConfigs(
+  previous: MCPServerConfig[],
+  next: MCPServerConfig[]
+): ServerConfigDiff {
+  const byName = (servers: MCPServerConfig[]) =>
+    new Map(servers.filter((s) => s.enabled !== false).map((s) => [s.name, s]));
+
+  const before = byName(previous);
+  const after = byName(next);
+
+  const diff: ServerConfigDiff = { added: [], removed: [], changed: [] };
+
+  for (const [name, config] of after) {
+    const old = before.get(name);
+    if (!old) {
+      diff.added.push(config);
+    } else if (!isDeepStrictEqual(old, config)) {
+      diff.changed.push(config);
+    }
+  }
+
+  for (const [name, config] of before) {
+    if (!after.has(name)) {
+      diff.removed.push(config);
+    }
+  }
+
+  return diff;
+}
+
+export type ConfigWatcherOptions = {
+  paths?: string[];
+  intervalMs?: number;
+  debounceMs?: number;
+  loader?: () => ConfigResult;
+};
+
+/**
+ * Watches the user-level and project-level config files and reports the
+ * reloaded configuration after they change. Invalid edits are logged and
+ * ignored so the running configuration stays in effect.
+ */
+export class ConfigWatcher {
+  private logger: Logger;
+  private onChange: (config: ConfigResult) => void | Promise<void>;
+  private paths: string[];
+  private intervalMs: number;
+  private debounceMs: number;
+  private loader: () => ConfigResult;
+  private debounceTimer?: NodeJS.Timeout;
+  private listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+      this.scheduleReload();
+    }
+  };
+
+  constructor(
+    logger: Logger,
+    onChange: (config: ConfigResult) => void | Promise<void>,
+    options: ConfigWatcherOptions = {}
+  ) {
+    this.logger = logger;
+    this.onChange = onChange;
+    const defaults = getConfigPaths();
+    this.paths = options.paths ?? [defaults.user, defaults.project];
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.debounceMs = options.debounceMs ?? 300;
+    this.loader = options.loader ?? loadJSONServers;
+  }
+
+  /**
+   * Start watching (files that don't exist yet are picked up once created)
+   */
+  start(): void {
+    for (const path of this.paths) {
+      // Stat polling works for files that don't exist yet and survives editors that replace files
+      watchFile(path, { interval: this.intervalMs, persistent: false }, this.listener);
+    }
+    this.logger.info({ paths: this.paths }, 'Watching configuration files for changes');
+  }
+
+  stop(): void {
+    clearTimeout(this.debounceTimer);
+    for (const path of this.paths) {
+      unwatchFile(path, this.listener);
+    }
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => void this.reload(), this.debounceMs);
+  }
+
+  private async reload(): Promise<void> {
+    let config: ConfigResult;
+    try {
+      config = this.loader();
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to reload configuration, keeping current configuration');
+      return;
+    }
+
+    this.logger.info('Configuration files changed, reloading');
+
+    try {
+      await this.onChange(config);
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to apply reloaded configuration');
+    }
+  }
+}
@@ -4,17 +4,43 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  type Progress,
+  ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { MCPClientManager } from './mcp/client-manager.js';
 import { CompressionCache } from './services/compression-cache.js';
 import { SessionManager } from './services/session-manager.js';
-import { loadJSONServers, matchesIgnorePattern } from './config/loader.js';
+import {
+  DEFAULT_NAMESPACE_SEPARATOR,
+  loadJSONServers,
+  matchesIgnorePattern,
+  RESOURCE_URI_SEPARATOR,
+  type ConfigResult,
+} from './config/loader.js';
+import { ConfigWatcher, diffServerConfigs } from './config/watcher.js';
 import { writeFileSync, readFileSync } from 'fs';
 import { resolve } from 'path';
 import pino from 'pino';
 import { StatsService } from './services/stats-service.js';
+import { HealthService } from './services/health-service.js';
+import { ToolCatalog } from './services/tool-catalog.js';
+import { ResourceAggregator, parseResourceUri } from './services/resource-aggregator.js';
+import { PromptAggregator, PROMPT_CACHE_PREFIX } from './services/prompt-aggregator.js';
+import { ToolNamespace, splitNamespacedName } from './services/tool-namespace.js';
+import { ToolOverrides, applyPinnedArguments, mergePinnedArguments } from './services/tool-overrides.js';
+import type { SamplingCompressionConfig } from './types/index.js';
+import type { CompressionProvider, UncompressedTool } from './services/compression-provider.js';
+import { OpenAICompressionProvider } from './services/openai-compression-provider.js';
+import { SamplingCompressionProvider } from './services/sampling-compression-provider.js';
+import { AutoCompressor } from './services/auto-compressor.js';
 
 /**
  * MCP Server that aggregates tools from multiple MCP servers
@@ -36,19 +62,47 @@ const logger = pino({
 });
 
 // Initialize services
-const clientManager = new MCPClientManager(logger);
+const toolCatalog = new ToolCatalog(logger);
+const clientManager = new MCPClientManager(logger, toolCatalog);
 const compressionCache = new CompressionCache(logger);
 const sessionManager = new SessionManager(logger);
 const statsService = new StatsService(
   logger,
   clientManager,
   compressionCache,
-  sessionManager
+  sessionManager,
+  () => activeConfig
+);
+const healthService = new HealthService(logger, clientManager);
+const resourceAggregator = new ResourceAggregator(
+  logger,
+  clientManager,
+  () => activeConfig?.excludePatterns || []
+);
+const promptAggregator = new PromptAggregator(
+  logger,
+  clientManager,
+  compressionCache,
+  () => activeConfig
+);
+// Hidden servers stay resolvable so their calls still get the circuit breaker's error
+const toolNamespace = new ToolNamespace(() => clientManager.getAvailableTools());
+const toolOverrides = new ToolOverrides(
+  logger,
+  () => activeConfig?.toolOverrides || {},
+  (alias) => toolNamespace.isBackendTool(alias)
 );
 
 // Current session context (set by tools)
 let currentSessionId: string | undefined;
 
+// Configuration currently in effect (replaced on hot reload)
+let activeConfig: ConfigResult = null;
+
+// Background compression, running while a compression provider is configured
+let autoCompressor: AutoCompressor | null = null;
+let autoCompressorConfig: string | undefined;
+
 // Create MCP server
 const server = new Server(
   {
@@ -57,11 +111,66 @@ const server = new Server(
   },
   {
     capabilities: {
-      tools: {},
+      tools: {
+        listChanged: true,
+      },
+      resources: {},
+      prompts: {},
+      logging: {},
+      completions: {},
     },
   }
 );
 
+/**
+ * List catalogued tools from every available backend (connected servers
+ * plus lazy servers that are not currently running)
+ */
+function listBackendTools(): Array<{ name: string; tools: Tool[] }> {
+  return clientManager.getAvailableTools().filter(
+    ({ name }) => !clientManager.isServerHidden(name)
+  );
+}
+
+/**
+ * Descriptions of a tool's top-level inputSchema properties, keyed by property name
+ */
+function getParameterDescriptions(tool: Tool): Record<string, string> {
+  const descriptions: Record<string, string> = {};
+  for (const [name, property] of Object.entries(tool.inputSchema.properties || {})) {
+    const description = (property as { description?: unknown }).description;
+    if (typeof description === 'string' && description.length > 0) {
+      descriptions[name] = description;
+    }
+  }
+  return descriptions;
+}
+
+/**
+ * Tools (and, with compressPrompts, prompts) without a cached compressed description
+ */
+async function listUncompressedTools(): Promise<UncompressedTool[]> {
+  return [
+    ...listBackendTools().flatMap(({ name, tools }) =>
+      tools
+        .filter((tool) => !compressionCache.hasCompressed(name, tool.name))
+        .map((tool) => {
+          const parameters = getParameterDescriptions(tool);
+          return {
+            serverName: name,
+            toolName: tool.name,
+            description: tool.description || '',
+            ...(Object.keys(parameters).length > 0 && { parameters }),
+          };
+        })
+    ),
+    // Prompt descriptions join the workflow when compressPrompts is enabled
+    ...(await promptAggregator.listCompressiblePrompts()).filter(
+      (prompt) => !compressionCache.hasCompressed(prompt.serverName, prompt.toolName)
+    ),
+  ];
+}
+
 /**
  * List all tools from aggregated MCP servers + management tools
  */
@@ -115,7 +224,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     },
     {
       name: 'mcp-compression-proxy__get_uncompressed_tools',
-      description: 'Get tools that need compression (those without cached compressed descriptions). Returns up to the specified limit of tools that need compression. After compressing these descriptions, call mcp-compression-proxy__cache_compressed_tools. Repeat this process until no uncached tools remain.',
+      description: 'Get tools that need compression (those without cached compressed descriptions). Returns up to the specified limit of tools that need compression, with their parameter descriptions under parameters when they have any. After compressing these descriptions (and parameters), call mcp-compression-proxy__cache_compressed_tools. Repeat this process until no uncached tools remain.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -135,7 +244,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     },
     {
       name: 'mcp-compression-proxy__cache_compressed_tools',
-      description: 'Save compressed tool descriptions to cache (max 100 tools per call). Provide either descriptions array or inputFile path. After caching, call mcp-compression-proxy__get_uncompressed_tools again to get the next batch if any remain uncached. Continue until all tools are compressed.',
+      description: 'Save compressed tool descriptions to cache (max 100 tools per call), optionally with compressed parameter descriptions. Provide either descriptions array or inputFile path. After caching, call mcp-compression-proxy__get_uncompressed_tools again to get the next batch if any remain uncached. Continue until all tools are compressed.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -149,6 +258,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                 serverName: { type: 'string' },
                 toolName: { type: 'string' },
                 description: { type: 'string' },
+                parameters: {
+                  type: 'object',
+                  description: 'Optional compressed parameter descriptions keyed by parameter name',
+                  additionalProperties: { type: 'string' },
+                },
               },
               required: ['serverName', 'toolName', 'description'],
             },
@@ -196,6 +310,47 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         required: ['serverName', 'toolName'],
       },
     },
+    {
+      name: 'mcp-compression-proxy__health',
+      description: 'Get backend server health: overall status (healthy, degraded or unhealthy), per-server connectivity, ping round-trip times and last successful ping. Optional input: refresh (ping all servers now).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          refresh: {
+            type: 'boolean',
+            description: 'Ping all connected servers now instead of reporting the last periodic check',
+            default: false,
+          },
+        },
+      },
+    },
+    {
+      name: 'mcp-compression-proxy__server_logs',
+      description: 'Get the last lines a backend server wrote to stderr. Useful for diagnosing servers that fail to start or crash.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          serverName: {
+            type: 'string',
+            description: 'Backend server name',
+          },
+          lines: {
+            type: 'number',
+            description: 'Number of lines to return (default: 50)',
+            default: 50,
+          },
+        },
+        required: ['serverName'],
+      },
+    },
+    {
+      name: 'mcp-compression-proxy__auto_compress',
+      description: 'Compress all uncached tool descriptions now, without returning them to you. Uses the configured compression provider, or your own model through MCP sampling when none is configured. Returns how many tools were compressed.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
     {
       name: 'mcp-compression-proxy__stats',
       description: 'Get compression and server statistics. Optional inputs: serverName filter and detailLevel ("summary" | "full", default summary). Returns JSON with coverage, cache, and session details.',
@@ -217,49 +372,53 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     },
   ];
 
-  // Get tools from all connected MCP servers
-  const clients = clientManager.getConnectedClients();
-  logger.info({ connectedCount: clients.length, clients: clients.map(c => c.name) }, 'Connected clients for tools/list');
-  
-  const toolPromises = clients.map(async ({ name, client }) => {
-    try {
-      const result = await client.listTools();
-      return result.tools.map((tool) => {
-        // Check if tool is expanded in current session
-        const isExpanded = sessionManager.isToolExpanded(
-          currentSessionId,
-          name,
-          tool.name
-        );
-
-        // Get description: compressed by default, original if expanded
-        const description = compressionCache.getDescription(
-          name,
-          tool.name,
-          tool.description,
-          isExpanded
-        );
+  // Get tools from all available MCP servers (connected + idle lazy servers)
+  const backendTools = listBackendTools();
 
-        return {
-          name: `${name}__${tool.name}`,
-          description,
-          inputSchema: tool.inputSchema,
-        };
-      });
-    } catch (error) {
-      logger.error({ server: name, error }, 'Failed to list tools from server');
-      return [];
-    }
-  });
+  const aggregatedTools = backendTools.flatMap(({ name, tools }) =>
+    tools.map((tool) => {
+      // Check if tool is expanded in current session
+      const isExpanded = sessionManager.isToolExpanded(
+        currentSessionId,
+        name,
+        tool.name
+      );
+
+      // Get description: compressed by default, original if expanded
+      const description = compressionCache.getDescription(
+        name,
+        tool.name,
+        tool.description,
+        isExpanded
+      );
+
+      return {
+        name: toolNamespace.qualify(name, tool.name),
+        description,
+        inputSchema: compressionCache.getInputSchema(name, tool.name, tool.inputSchema, isExpanded),
+      };
+    })
+  );
 
-  const toolArrays = await Promise.all(toolPromises);
-  const aggregatedTools = toolArrays.flat();
+  // Configured aliases share the compressed description of their backend tool
+  const aliasTools = toolOverrides.listAliases(backendTools).map(({ alias, serverName, backendTool, override }) => {
+    const isExpanded = sessionManager.isToolExpanded(currentSessionId, serverName, backendTool.name);
+
+    return {
+      name: alias,
+      description: override.description
+        ?? compressionCache.getDescription(serverName, backendTool.name, backendTool.description, isExpanded),
+      inputSchema: applyPinnedArguments(
+        compressionCache.getInputSchema(serverName, backendTool.name, backendTool.inputSchema, isExpanded),
+        override
+      ),
+    };
+  });
 
-  const allTools = [...aggregatorTools, ...aggregatedTools];
+  const allTools = [...aggregatorTools, ...aggregatedTools, ...aliasTools];
 
   // Apply exclude patterns to filter out tools
-  const config = loadJSONServers();
-  const excludePatterns = config?.excludePatterns || [];
+  const excludePatterns = activeConfig?.excludePatterns || [];
   const filteredTools = allTools.filter(tool => {
     const isExcluded = matchesIgnorePattern(tool.name, excludePatterns);
     if (isExcluded) {
@@ -276,7 +435,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 /**
  * Call a tool (either management tool or aggregated MCP tool)
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
 
   logger.debug({ tool: name, args }, 'Handling tools/call request');
@@ -374,25 +533,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { limit = 25, outputFile } = args as { limit?: number; outputFile?: string };
     const actualLimit = Math.min(Math.max(limit, 1), 100);
 
-    const clients = clientManager.getConnectedClients();
-    const toolPromises = clients.map(async ({ name, client }) => {
-      try {
-        const result = await client.listTools();
-        return result.tools
-          .filter((tool) => !compressionCache.hasCompressed(name, tool.name))
-          .map((tool) => ({
-            serverName: name,
-            toolName: tool.name,
-            description: tool.description || '',
-          }));
-      } catch (error) {
-        return [];
-      }
-    });
+    const allUncompressedTools = await listUncompressedTools();
 
-    const toolArrays = await Promise.all(toolPromises);
-    const allUncompressedTools = toolArrays.flat();
-    
     // Apply limit
     const toolsToCompress = allUncompressedTools.slice(0, actualLimit);
     const remaining = Math.max(0, allUncompressedTools.length - actualLimit);
@@ -444,6 +586,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         serverName: string;
         toolName: string;
         description: string;
+        parameters?: Record<string, string>;
       }>;
       inputFile?: string;
     };
@@ -477,6 +620,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       serverName: string;
       toolName: string;
       description: string;
+      parameters?: Record<string, string>;
     }> = [];
 
     if (inputFile) {
@@ -529,47 +673,40 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     let savedCount = 0;
+    const prompts = await promptAggregator.listCompressiblePrompts();
 
     for (const desc of toolsToCache) {
-      const { serverName, toolName, description: compressedDescription } = desc;
-
-      // Get original description from MCP server
-      const client = clientManager.getClient(serverName);
-      let originalDescription: string | undefined;
-
-      if (client) {
-        try {
-          const result = await client.listTools();
-          const tool = result.tools.find((t) => t.name === toolName);
-          originalDescription = tool?.description;
-        } catch (error) {
-          logger.error({ serverName, toolName, error }, 'Failed to fetch original');
-        }
-      }
+      const { serverName, toolName, description: compressedDescription, parameters } = desc;
+
+      // Get original descriptions from the server's tool listing (or the backend prompt listing)
+      const catalogTool = clientManager.getServerTools(serverName)?.find((tool) => tool.name === toolName);
+      const originalDescription = toolName.startsWith(PROMPT_CACHE_PREFIX)
+        ? prompts.find((p) => p.serverName === serverName && p.toolName === toolName)?.description
+        : catalogTool?.description;
+      const originalParameters = catalogTool ? getParameterDescriptions(catalogTool) : {};
 
       compressionCache.saveCompressed(
         serverName,
         toolName,
         compressedDescription,
-        originalDescription
+        originalDescription,
+        parameters && Object.fromEntries(
+          Object.entries(parameters).map(([param, compressed]) => [
+            param,
+            { original: Object.hasOwn(originalParameters, param) ? originalParameters[param] : undefined, compressed },
+          ])
+        )
       );
 
       savedCount++;
     }
 
     // Check for remaining uncached tools
-    const clients = clientManager.getConnectedClients();
-    const remainingPromises = clients.map(async ({ name, client }) => {
-      try {
-        const result = await client.listTools();
-        return result.tools.filter((tool) => !compressionCache.hasCompressed(name, tool.name));
-      } catch (error) {
-        return [];
-      }
-    });
-
-    const remainingArrays = await Promise.all(remainingPromises);
-    const remainingTools = remainingArrays.flat().length;
+    const backendTools = listBackendTools();
+    const remainingTools = backendTools
+      .flatMap(({ name, tools }) => tools.filter((tool) => !compressionCache.hasCompressed(name, tool.name)))
+      .length +
+      prompts.filter((prompt) => !compressionCache.hasCompressed(prompt.serverName, prompt.toolName)).length;
 
     // Persist to disk
     try {
@@ -609,7 +746,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
-    if (!compressionCache.hasCompressed(serverName, toolName)) {
+    // Tools without a compressed description can still be expanded to restore a minified schema
+    const hasCompressed = compressionCache.hasCompressed(serverName, toolName);
+    if (!hasCompressed && compressionCache.getSchemaMinification() === 'none') {
       return {
         content: [
           {
@@ -623,6 +762,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     sessionManager.expandTool(currentSessionId, serverName, toolName);
 
+    if (!hasCompressed) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Tool ${serverName}:${toolName} expanded in session ${currentSessionId}.\n\nThe full inputSchema is shown instead of the minified one.`,
+          },
+        ],
+      };
+    }
+
     const original = compressionCache.getOriginalDescription(serverName, toolName);
     const compressed = compressionCache.getCompressedDescription(serverName, toolName);
 
@@ -666,6 +816,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  if (name === 'mcp-compression-proxy__auto_compress') {
+    // Without a configured provider, fall back to the client's model when it supports sampling
+    const compressor = autoCompressor
+      ?? (server.getClientCapabilities()?.sampling ? createAutoCompressor(createSamplingProvider({})) : null);
+
+    if (!compressor?.isAvailable()) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: compressor
+              ? `Error: The ${compressor.getProviderName()} compression provider is not available (the connected client does not support sampling).`
+              : 'Error: No compression provider is configured and the connected client does not support sampling. Configure "compression" in servers.json or use mcp-compression-proxy__get_uncompressed_tools.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const result = await compressor.compressNow();
+    const remaining = (await listUncompressedTools()).length;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Compressed ${result.compressed} tool descriptions with the ${compressor.getProviderName()} provider.${result.failed > 0 ? ` ${result.failed} could not be compressed.` : ''}\n\n${remaining > 0 ? `Remaining tools to compress: ${remaining}` : 'All tools have been compressed! 🎉'}`,
+        },
+      ],
+    };
+  }
+
   if (name === 'mcp-compression-proxy__stats') {
     const { serverName, detailLevel } = args as {
       serverName?: string;
@@ -697,26 +879,85 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
   }
 
-  // Aggregated MCP tool call
-  // Tool name format: "serverName__toolName"
-  const parts = name.split('__');
+  if (name === 'mcp-compression-proxy__health') {
+    const { refresh } = args as { refresh?: boolean };
+
+    try {
+      const health = await healthService.getHealth({ refresh });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(health, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      logger.error({ error }, 'Failed to compute health');
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error checking health: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  if (name === 'mcp-compression-proxy__server_logs') {
+    const { serverName, lines = 50 } = args as { serverName: string; lines?: number };
+
+    if (!clientManager.getServerStatuses().some((s) => s.name === serverName)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Server '${serverName}' is not configured`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const logLines = clientManager.getServerLogs(serverName, lines);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: logLines.length > 0
+            ? `Last ${logLines.length} stderr lines from '${serverName}':\n\n${logLines.join('\n')}`
+            : `No stderr output captured for server '${serverName}'`,
+        },
+      ],
+    };
+  }
+
+  // Aliases from toolOverrides take precedence over namespaced names; other
+  // tool calls are routed through the reverse lookup of exposed names
+  const override = toolOverrides.get(name);
+  const target = override
+    ? { serverName: override.server, name: override.tool }
+    : toolNamespace.resolve(name);
 
-  if (parts.length !== 2) {
+  if (!target) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error: Invalid tool name format. Expected "serverName__toolName", got "${name}"`,
+          text: `Error: Invalid tool name format. Expected "serverName${toolNamespace.getSeparator()}toolName", got "${name}"`,
         },
       ],
       isError: true,
     };
   }
 
-  const [serverName, toolName] = parts;
-  const client = clientManager.getClient(serverName);
+  const { serverName, name: toolName } = target;
 
-  if (!client) {
+  if (!clientManager.isServerAvailable(serverName)) {
     return {
       content: [
         {
@@ -728,11 +969,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  // Relay backend progress when the client asked for it with a progress token
+  const progressToken = request.params._meta?.progressToken;
+  const onProgress = progressToken !== undefined
+    ? (progress: Progress) => {
+        extra
+          .sendNotification({ method: 'notifications/progress', params: { ...progress, progressToken } })
+          .catch((error) => logger.debug({ serverName, toolName, error }, 'Failed to relay progress'));
+      }
+    : undefined;
+
   try {
-    const result = await client.callTool({
-      name: toolName,
-      arguments: args || {},
-    });
+    // Lazy servers are started on demand by the client manager; cancellation
+    // from the client is forwarded to the backend through the request signal
+    const toolArgs = override ? mergePinnedArguments(override, args || {}) : args || {};
+    const result = await clientManager.callTool(serverName, toolName, toolArgs, extra.signal, onProgress);
 
     return result;
   } catch (error) {
@@ -750,13 +1001,197 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+/**
+ * List resources from all connected MCP servers under namespaced URIs (serverName+uri)
+ */
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const resources = await resourceAggregator.listResources();
+  logger.debug({ count: resources.length }, 'Returning resources');
+  return { resources };
+});
+
+/**
+ * List resource templates from all connected MCP servers under namespaced URIs
+ */
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  const resourceTemplates = await resourceAggregator.listResourceTemplates();
+  logger.debug({ count: resourceTemplates.length }, 'Returning resource templates');
+  return { resourceTemplates };
+});
+
+/**
+ * Read a namespaced resource from the server that owns it
+ */
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  logger.debug({ uri: request.params.uri }, 'Handling resources/read request');
+  return resourceAggregator.readResource(request.params.uri);
+});
+
+/**
+ * List prompts from all connected MCP servers as serverName__promptName
+ */
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  const prompts = await promptAggregator.listPrompts();
+  logger.debug({ count: prompts.length }, 'Returning prompts');
+  return { prompts };
+});
+
+/**
+ * Get a namespaced prompt from the server that owns it
+ */
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  logger.debug({ prompt: request.params.name }, 'Handling prompts/get request');
+  return promptAggregator.getPrompt(request.params.name, request.params.arguments);
+});
+
+/**
+ * Complete a prompt argument or resource template variable on the server that owns
+ * the namespaced prompt (serverName__promptName) or resource template (serverName+uri)
+ */
+server.setRequestHandler(CompleteRequestSchema, async (request) => {
+  const { ref } = request.params;
+  logger.debug({ ref, argument: request.params.argument.name }, 'Handling completion/complete request');
+
+  if (ref.type === 'ref/prompt') {
+    const separator = toolNamespace.getSeparator();
+    const parsed = splitNamespacedName(ref.name, separator);
+    if (!parsed) {
+      throw new Error(`Invalid prompt name format. Expected "serverName${separator}promptName", got "${ref.name}"`);
+    }
+    return clientManager.complete(parsed.serverName, { ...request.params, ref: { ...ref, name: parsed.name } });
+  }
+
+  const parsed = parseResourceUri(ref.uri);
+  if (!parsed) {
+    throw new Error(`Invalid resource URI '${ref.uri}': expected serverName${RESOURCE_URI_SEPARATOR}uri`);
+  }
+  return clientManager.complete(parsed.serverName, { ...request.params, ref: { ...ref, uri: parsed.uri } });
+});
+
+/**
+ * Apply a reloaded configuration: connect added servers, disconnect removed ones,
+ * restart changed ones, update patterns, and tell the client the tool list changed
+ */
+async function applyConfigReload(newConfig: ConfigResult): Promise<void> {
+  const previousConfig = activeConfig;
+  activeConfig = newConfig;
+
+  compressionCache.setNoCompressPatterns(newConfig?.noCompressPatterns || []);
+  compressionCache.setSchemaMinification(newConfig?.schemaMinification ?? 'none');
+  setNamespaceSeparator(newConfig?.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR);
+
+  const { added, removed, changed } = diffServerConfigs(
+    previousConfig?.servers || [],
+    newConfig?.servers || []
+  );
+
+  logger.info({
+    added: added.map(s => s.name),
+    removed: removed.map(s => s.name),
+    changed: changed.map(s => s.name),
+  }, 'Applying reloaded configuration');
+
+  await Promise.allSettled([
+    ...removed.map(s => clientManager.removeServer(s.name)),
+    ...changed.map(async s => {
+      await clientManager.removeServer(s.name);
+      await clientManager.addServer(s, newConfig?.defaultTimeout);
+    }),
+    ...added.map(s => clientManager.addServer(s, newConfig?.defaultTimeout)),
+  ]);
+  toolNamespace.invalidate();
+
+  configureAutoCompression(newConfig);
+  await notifyToolListChanged();
+}
+
+/**
+ * Start, replace or stop background compression to match the configured provider,
+ * then compress whatever is uncached
+ */
+function configureAutoCompression(config: ConfigResult): void {
+  const compression = config?.compression;
+  const serialized = compression && JSON.stringify(compression);
+
+  if (serialized !== autoCompressorConfig) {
+    autoCompressor?.stop();
+    autoCompressor = compression
+      ? createAutoCompressor(
+          compression.provider === 'openai'
+            ? new OpenAICompressionProvider(logger, compression)
+            : createSamplingProvider(compression)
+        )
+      : null;
+    autoCompressorConfig = serialized;
+
+    if (compression) {
+      logger.info({ provider: compression.provider }, 'Background compression enabled');
+    } else {
+      logger.info('Background compression disabled');
+    }
+  }
+
+  autoCompressor?.schedule();
+}
+
+/**
+ * Compressor filling the compression cache with the given provider
+ */
+function createAutoCompressor(provider: CompressionProvider): AutoCompressor {
+  return new AutoCompressor(
+    logger,
+    provider,
+    compressionCache,
+    listUncompressedTools,
+    () => void notifyToolListChanged()
+  );
+}
+
+/**
+ * Provider compressing through the connected client's model (sampling/createMessage)
+ */
+function createSamplingProvider(config: Omit<SamplingCompressionConfig, 'provider'>): SamplingCompressionProvider {
+  return new SamplingCompressionProvider(
+    logger,
+    config,
+    (params, options) => server.createMessage(params, options),
+    () => !!server.getClientCapabilities()?.sampling
+  );
+}
+
+/**
+ * Use a separator between server and tool names in exposed names
+ */
+function setNamespaceSeparator(separator: string): void {
+  toolNamespace.setSeparator(separator);
+  compressionCache.setNamespaceSeparator(separator);
+}
+
+/**
+ * Tell the client to re-fetch tools/list
+ */
+async function notifyToolListChanged(): Promise<void> {
+  try {
+    await server.sendToolListChanged();
+  } catch (error) {
+    logger.warn({ error }, 'Failed to send tools/list_changed notification');
+  }
+}
+
 /**
  * Parse command-line arguments
+ * The profile comes from --profile <name> (or --profile=<name>), falling back to MCP_COMPRESSION_PROXY_PROFILE
  */
-function parseArgs(): { clearCache: boolean } {
+function parseArgs(): { clearCache: boolean; profile?: string } {
   const args = process.argv.slice(2);
+  const profileIndex = args.indexOf('--profile');
+  const profileArg = profileIndex >= 0
+    ? args[profileIndex + 1]
+    : args.find((arg) => arg.startsWith('--profile='))?.slice('--profile='.length);
+
   return {
     clearCache: args.includes('--clear-cache'),
+    profile: profileArg || process.env.MCP_COMPRESSION_PROXY_PROFILE || undefined,
   };
 }
 
@@ -767,7 +1202,7 @@ async function main() {
   logger.info('Starting MCP Tool Aggregator Server');
 
   // Parse command-line arguments
-  const { clearCache } = parseArgs();
+  const { clearCache, profile } = parseArgs();
 
   // Handle --clear-cache flag
   if (clearCache) {
@@ -784,8 +1219,9 @@ async function main() {
     logger.warn({ error }, 'Failed to load cache, continuing with empty cache');
   }
 
-  // Load configuration from JSON files
-  const config = loadJSONServers();
+  // Load configuration from JSON files, narrowed to the selected profile
+  const config = loadJSONServers(profile);
+  activeConfig = config;
 
   // Initialize backend MCP servers BEFORE connecting to Q CLI
   // This ensures all tools are available when the MCP client queries us
@@ -793,8 +1229,10 @@ async function main() {
     logger.warn('No valid configuration found. Server will start with no backend MCP servers. Please create a servers.json file to add MCP servers.');
     // Continue with empty configuration - server will only provide management tools
   } else {
-    // Configure noCompress patterns
+    // Configure noCompress patterns, schema minification and the separator of exposed names
     compressionCache.setNoCompressPatterns(config.noCompressPatterns);
+    compressionCache.setSchemaMinification(config.schemaMinification ?? 'none');
+    setNamespaceSeparator(config.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR);
 
     // Initialize MCP clients (only enabled servers)
     const enabledServers = config.servers.filter(server => {
@@ -803,6 +1241,7 @@ async function main() {
     });
 
     logger.info({
+      profile: config.profile,
       total: config.servers.length,
       enabled: enabledServers.length,
       servers: enabledServers.map(s => s.name)
@@ -811,6 +1250,7 @@ async function main() {
     // Wait for all servers to initialize or timeout before reporting ready
     try {
       await clientManager.initializeServers(enabledServers, config.defaultTimeout);
+      toolNamespace.invalidate();
       logger.info('Backend MCP servers initialization complete');
     } catch (error) {
       logger.error({ error }, 'Error during backend server initialization');
@@ -822,6 +1262,66 @@ async function main() {
   await server.connect(transport);
 
   logger.info('MCP Tool Aggregator Server ready and connected to stdio');
+
+  // Backends hidden or restored by their circuit breaker change the tool list;
+  // new backend tools are picked up by background compression
+  clientManager.setToolListChangedHandler(() => {
+    toolNamespace.invalidate();
+    autoCompressor?.schedule();
+    void notifyToolListChanged();
+  });
+
+  // Compress uncached tools in the background when a compression provider is configured
+  configureAutoCompression(config);
+
+  // Backend log messages go to the client (filtered by its logging/setLevel), tagged with the server
+  clientManager.setLogMessageHandler((serverName, params) => {
+    server
+      .sendLoggingMessage({ ...params, logger: params.logger ? `${serverName}/${params.logger}` : serverName })
+      .catch((error) => logger.debug({ server: serverName, error }, 'Failed to relay log message'));
+  });
+
+  // Sampling requests from opted-in backends are answered by our client's LLM
+  clientManager.setSamplingHandler((serverName, params, signal) => {
+    logger.debug({ server: serverName }, 'Forwarding sampling request to client');
+    return server.createMessage(params, { signal });
+  });
+
+  // Backends asking the user for input are answered by our client
+  clientManager.setElicitationHandler((serverName, params, signal) => {
+    if (!server.getClientCapabilities()?.elicitation) {
+      throw new Error('The connected client does not support elicitation');
+    }
+    logger.debug({ server: serverName }, 'Forwarding elicitation request to client');
+    return server.elicitInput(params, { signal });
+  });
+
+  // Backends see the client's workspace roots (restricted or overridden per server)
+  clientManager.setRootsProvider(async () => {
+    if (!server.getClientCapabilities()?.roots) {
+      return [];
+    }
+    const { roots } = await server.listRoots();
+    return roots;
+  });
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+    logger.info('Client roots changed, notifying backend servers');
+    await clientManager.notifyRootsChanged();
+  });
+  server.oninitialized = () => {
+    // Backends that asked before the client was connected were told there are no roots
+    if (server.getClientCapabilities()?.roots) {
+      void clientManager.notifyRootsChanged();
+    }
+    // Sampling-based compression waits for the client's capabilities
+    autoCompressor?.schedule();
+  };
+
+  // Pick up servers.json edits without restarting the proxy
+  const configWatcher = new ConfigWatcher(logger, applyConfigReload, {
+    loader: () => loadJSONServers(profile),
+  });
+  configWatcher.start();
 }
 
 main().catch((error) => {
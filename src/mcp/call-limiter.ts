@@ -0,0 +1,121 @@
+import type { CallQueueStats } from '../types/index.js';
+
+/**
+ * A call waiting for a free slot
+ */
+interface QueuedCall {
+  enqueuedAt: number;
+  start: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Limits the number of concurrent calls to one backend server.
+ * Calls over the limit wait in a FIFO queue; when the queue is full they are rejected.
+ */
+export class CallLimiter {
+  private serverName: string;
+  private maxConcurrent: number;
+  private maxQueueLength?: number;
+  private active = 0;
+  private queue: QueuedCall[] = [];
+  private admitted = 0;
+  private rejected = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(serverName: string, maxConcurrent: number, maxQueueLength?: number) {
+    this.serverName = serverName;
+    this.maxConcurrent = maxConcurrent;
+    this.maxQueueLength = maxQueueLength;
+  }
+
+  /**
+   * Run a task once a slot is free. Aborting the signal removes a queued call from the queue.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+
+    if (this.active < this.maxConcurrent) {
+      this.admit(0);
+      return Promise.resolve();
+    }
+
+    if (this.maxQueueLength !== undefined && this.queue.length >= this.maxQueueLength) {
+      this.rejected++;
+      return Promise.reject(
+        new Error(
+          `Server '${this.serverName}' is busy: ${this.active} calls in progress and ` +
+          `${this.queue.length} queued (maxQueueLength: ${this.maxQueueLength})`
+        )
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((call) => call !== queued);
+        reject(signal!.reason);
+      };
+
+      const queued: QueuedCall = {
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.admit(Date.now() - queued.enqueuedAt);
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(queued);
+    });
+  }
+
+  private admit(waitMs: number): void {
+    this.active++;
+    this.admitted++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+
+  private release(): void {
+    this.active--;
+    this.queue.shift()?.start();
+  }
+
+  /**
+   * Reject every queued call (used when the server is removed or the proxy shuts down)
+   */
+  clear(reason: string): void {
+    const queued = this.queue;
+    this.queue = [];
+    for (const call of queued) {
+      call.reject(new Error(reason));
+    }
+  }
+
+  getStats(): CallQueueStats {
+    return {
+      maxConcurrentCalls: this.maxConcurrent,
+      maxQueueLength: this.maxQueueLength,
+      activeCalls: this.active,
+      queuedCalls: this.queue.length,
+      rejectedCalls: this.rejected,
+      averageWaitMs: this.admitted ? Math.round(this.totalWaitMs / this.admitted) : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+}
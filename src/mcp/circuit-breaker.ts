@@ -0,0 +1,169 @@
+import type { CircuitBreakerConfig, CircuitBreakerStats, CircuitState } from '../types/index.js';
+
+/**
+ * Per-server circuit breaker driven by the failure rate of recent calls.
+ *
+ * closed -> open when the failure rate over the window reaches the threshold;
+ * open -> half-open after resetTimeout; half-open -> closed when the probe call
+ * succeeds, or back to open when it fails.
+ */
+export class CircuitBreaker {
+  private serverName: string;
+  private failureThreshold: number;
+  private minimumCalls: number;
+  private windowSize: number;
+  private resetTimeoutMs: number;
+  private onStateChange: (state: CircuitState, previous: CircuitState) => void;
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = []; // true = failed, oldest first
+  private openedAt?: number;
+  private lastFailure?: string;
+  private probeInFlight = false;
+  private resetTimer?: NodeJS.Timeout;
+
+  constructor(
+    serverName: string,
+    config: CircuitBreakerConfig = {},
+    onStateChange: (state: CircuitState, previous: CircuitState) => void = () => {}
+  ) {
+    this.serverName = serverName;
+    this.failureThreshold = config.failureThreshold ?? 0.5;
+    this.minimumCalls = config.minimumCalls ?? 5;
+    this.windowSize = Math.max(config.windowSize ?? 10, this.minimumCalls);
+    this.resetTimeoutMs = (config.resetTimeout ?? 30) * 1000;
+    this.onStateChange = onStateChange;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Throw a descriptive error if a call would be rejected right now
+   */
+  assertCallAllowed(): void {
+    if (this.state === 'open') {
+      const failures = this.outcomes.filter(Boolean).length;
+      const retryInMs = Math.max((this.openedAt ?? 0) + this.resetTimeoutMs - Date.now(), 0);
+
+      throw new Error(
+        `Circuit breaker open for server '${this.serverName}': ${failures} of the last ` +
+        `${this.outcomes.length} calls failed (last error: ${this.lastFailure ?? 'unknown'}). ` +
+        `Retrying in ${Math.ceil(retryInMs / 1000)}s`
+      );
+    }
+
+    if (this.state === 'half-open' && this.probeInFlight) {
+      throw new Error(
+        `Circuit breaker for server '${this.serverName}' is half-open and waiting for a probe call to finish`
+      );
+    }
+  }
+
+  /**
+   * Run a call through the breaker. In the half-open state the call is the probe.
+   * Calls cancelled through the signal are not counted.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.assertCallAllowed();
+
+    const isProbe = this.state === 'half-open';
+    if (isProbe) {
+      this.probeInFlight = true;
+    }
+
+    try {
+      const result = await task();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        if (isProbe) {
+          this.probeInFlight = false;
+        }
+      } else {
+        this.recordFailure(error instanceof Error ? error.message : 'Unknown error');
+      }
+      throw error;
+    }
+  }
+
+  private recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.close();
+    } else if (this.state === 'closed') {
+      this.record(false);
+    }
+  }
+
+  private recordFailure(reason: string): void {
+    this.lastFailure = reason;
+
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+    if (this.state !== 'closed') {
+      return;
+    }
+
+    this.record(true);
+
+    const failures = this.outcomes.filter(Boolean).length;
+    if (
+      this.outcomes.length >= this.minimumCalls &&
+      failures / this.outcomes.length >= this.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private record(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(): void {
+    const previous = this.state;
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.probeInFlight = false;
+
+    clearTimeout(this.resetTimer);
+    this.resetTimer = setTimeout(() => {
+      this.state = 'half-open';
+      this.onStateChange('half-open', 'open');
+    }, this.resetTimeoutMs);
+    this.resetTimer.unref();
+
+    this.onStateChange('open', previous);
+  }
+
+  private close(): void {
+    const previous = this.state;
+    this.state = 'closed';
+    this.outcomes = [];
+    this.openedAt = undefined;
+    this.probeInFlight = false;
+    this.onStateChange('closed', previous);
+  }
+
+  getStats(): CircuitBreakerStats {
+    return {
+      state: this.state,
+      recentCalls: this.outcomes.length,
+      recentFailures: this.outcomes.filter(Boolean).length,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  /**
+   * Cancel the pending half-open transition
+   */
+  dispose(): void {
+    clearTimeout(this.resetTimer);
+  }
+}
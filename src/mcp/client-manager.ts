@@ -1,22 +1,132 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  McpError,
+  ToolListChangedNotificationSchema,
+  type ClientCapabilities,
+  type CompleteRequest,
+  type CompleteResult,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  type ElicitRequest,
+  type ElicitResult,
+  type LoggingMessageNotification,
+  type Progress,
+  type Root,
+  type Tool
+} from '@modelcontextprotocol/sdk/types.js';
 import type {
   MCPServerConfig,
   MCPClientConnection,
-  ServerStatus
+  ServerStatus,
+  CircuitState
 } from '../types/index.js';
 import type { Logger } from 'pino';
+import { ToolCatalog } from '../services/tool-catalog.js';
+import { ServerLogStore } from '../services/server-log-store.js';
+import { CallLimiter } from './call-limiter.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { RateLimiter } from './rate-limiter.js';
+import { resolveServerRoots } from './roots.js';
+
+/**
+ * Supervision state for a server, kept across reconnections
+ */
+interface SupervisorState {
+  restarts: number;
+  consecutiveFailures: number;
+  connectedAt?: number;
+  lastCrashReason?: string;
+  lastCrashAt?: string;
+  restartTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Relays a backend's sampling/createMessage request to the downstream client
+ */
+export type SamplingHandler = (
+  serverName: string,
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal
+) => Promise<CreateMessageResult>;
+
+/**
+ * Relays a backend's elicitation/create request to the downstream client
+ */
+export type ElicitationHandler = (
+  serverName: string,
+  params: ElicitRequest['params'],
+  signal: AbortSignal
+) => Promise<ElicitResult>;
+
+/**
+ * Fetches the downstream client's current workspace roots
+ */
+export type RootsProvider = () => Promise<Root[]>;
+
+/**
+ * Receives log messages (notifications/message) sent by a backend
+ */
+export type LogMessageHandler = (
+  serverName: string,
+  params: LoggingMessageNotification['params']
+) => void;
 
 /**
  * Manages connections to multiple MCP servers
  */
 export class MCPClientManager {
   private connections: Map<string, MCPClientConnection> = new Map();
+  private configs: Map<string, MCPServerConfig> = new Map();
+  private supervisors: Map<string, SupervisorState> = new Map();
+  private starting: Map<string, Promise<void>> = new Map();
+  private activeCalls: Map<string, number> = new Map();
+  private idleTimers: Map<string, NodeJS.Timeout> = new Map();
+  private limiters: Map<string, CallLimiter> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private healthTimers: Map<string, NodeJS.Timeout> = new Map();
+  private pools: Map<string, string[]> = new Map(); // Replicated server name -> replica names
+  private replicaPools: Map<string, string> = new Map(); // Replica name -> replicated server name
+  private poolCursors: Map<string, number> = new Map(); // Next replica in round-robin order
+  private toolListChangedHandler?: () => void;
+  private toolListChangedTimer?: NodeJS.Timeout;
+  private samplingLimiters: Map<string, RateLimiter> = new Map();
+  private samplingHandler?: SamplingHandler;
+  private elicitationHandler?: ElicitationHandler;
+  private rootsProvider?: RootsProvider;
+  private clientRoots?: Promise<Root[]>; // Cached until the client reports a roots change
+  private logMessageHandler?: LogMessageHandler;
+  private toolCatalog: ToolCatalog;
+  private logStore: ServerLogStore;
   private logger: Logger;
   private readonly DEFAULT_TIMEOUT_MS = 30000; // 30 seconds default timeout
+  private readonly DEFAULT_CALL_TIMEOUT_MS = 60000; // 60 seconds default tool call timeout
+  private readonly DEFAULT_MAX_RESTARTS = 5;
+  private readonly INITIAL_RESTART_DELAY_MS = 1000;
+  private readonly MAX_RESTART_DELAY_MS = 30000;
+  private readonly STABLE_CONNECTION_MS = 60000; // Uptime after which a crash starts a fresh backoff
+  private readonly DEFAULT_HEALTH_CHECK_INTERVAL_MS = 30000;
+  private readonly HEALTH_CHECK_TIMEOUT_MS = 10000;
+  private readonly MAX_FAILED_PINGS = 3; // Consecutive failed pings before the connection is recycled
+  private readonly TOOL_LIST_CHANGED_DEBOUNCE_MS = 250; // Coalesces bursts of tool list changes
+  private readonly DEFAULT_SAMPLING_REQUESTS_PER_MINUTE = 10;
 
-  constructor(logger: Logger) {
+  constructor(
+    logger: Logger,
+    toolCatalog?: ToolCatalog,
+    logStore?: ServerLogStore
+  ) {
     this.logger = logger;
+    this.toolCatalog = toolCatalog || new ToolCatalog(logger);
+    this.logStore = logStore || new ServerLogStore(logger);
   }
 
   /**
@@ -26,14 +136,175 @@ export class MCPClientManager {
     promise: Promise<T>,
     timeoutMs: number
   ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+
     return Promise.race([
       promise,
       new Promise<T>((_, reject) => {
-        setTimeout(() => {
+        timer = setTimeout(() => {
           reject(new Error(`Connection timeout after ${timeoutMs}ms`));
         }, timeoutMs);
       }),
-    ]);
+    ]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Register a callback for when the set of advertised backend tools changes.
+   * Changes are debounced so a burst of them results in a single call.
+   */
+  setToolListChangedHandler(handler: () => void): void {
+    this.toolListChangedHandler = handler;
+  }
+
+  private scheduleToolListChanged(): void {
+    clearTimeout(this.toolListChangedTimer);
+    this.toolListChangedTimer = setTimeout(() => {
+      this.toolListChangedTimer = undefined;
+      this.toolListChangedHandler?.();
+    }, this.TOOL_LIST_CHANGED_DEBOUNCE_MS);
+    this.toolListChangedTimer.unref();
+  }
+
+  /**
+   * A backend reported that its tools changed: refresh cached listings and tell the client
+   */
+  private async handleBackendToolListChanged(serverName: string, client: Client): Promise<void> {
+    // Ignore notifications from connections that have since been replaced
+    if (this.connections.get(serverName)?.client !== client) {
+      return;
+    }
+
+    this.logger.info({ server: serverName }, 'MCP server tool list changed');
+
+    await this.refreshToolCatalog(serverName);
+    this.scheduleToolListChanged();
+  }
+
+  /**
+   * Register the relay for sampling requests from servers that opted in with `sampling`
+   */
+  setSamplingHandler(handler: SamplingHandler): void {
+    this.samplingHandler = handler;
+  }
+
+  /**
+   * A backend asked the client to sample an LLM: apply its rate limit and relay the request
+   */
+  private async handleSamplingRequest(
+    serverName: string,
+    params: CreateMessageRequest['params'],
+    signal: AbortSignal
+  ): Promise<CreateMessageResult> {
+    // Replicas share the rate limit of their pool
+    const limitedName = this.replicaPools.get(serverName) ?? serverName;
+    const limiter = this.samplingLimiters.get(limitedName);
+    if (!limiter) {
+      throw new Error(`Sampling is not enabled for server '${limitedName}'`);
+    }
+
+    if (!limiter.tryAcquire()) {
+      const retryAfterS = Math.ceil(limiter.getRetryAfterMs() / 1000);
+      this.logger.warn({ server: serverName }, 'Sampling request rejected by rate limit');
+      throw new Error(
+        `Sampling rate limit exceeded for server '${limitedName}'. Retry in ${retryAfterS}s`
+      );
+    }
+
+    if (!this.samplingHandler) {
+      throw new Error('Sampling is not available: no client is connected to the proxy');
+    }
+
+    this.logger.info(
+      { server: serverName, messages: params.messages.length, maxTokens: params.maxTokens },
+      'Relaying sampling request to client'
+    );
+    return this.samplingHandler(serverName, params, signal);
+  }
+
+  /**
+   * Register the relay for elicitation requests from backends
+   */
+  setElicitationHandler(handler: ElicitationHandler): void {
+    this.elicitationHandler = handler;
+  }
+
+  private async handleElicitationRequest(
+    serverName: string,
+    params: ElicitRequest['params'],
+    signal: AbortSignal
+  ): Promise<ElicitResult> {
+    if (!this.elicitationHandler) {
+      throw new Error('Elicitation is not available: no client is connected to the proxy');
+    }
+
+    this.logger.info({ server: serverName }, 'Relaying elicitation request to client');
+    return this.elicitationHandler(serverName, params, signal);
+  }
+
+  /**
+   * Register the source of the client's workspace roots, which are relayed to backends
+   */
+  setRootsProvider(provider: RootsProvider): void {
+    this.rootsProvider = provider;
+    this.clientRoots = undefined;
+  }
+
+  /**
+   * The client's roots changed: drop the cached roots and tell every backend that sees them
+   */
+  async notifyRootsChanged(): Promise<void> {
+    this.clientRoots = undefined;
+
+    await Promise.all(
+      Array.from(this.connections.values())
+        .filter((conn) => conn.connected && !this.configs.get(conn.name)?.roots?.override)
+        .map(async ({ name, client }) => {
+          try {
+            await client.sendRootsListChanged();
+          } catch (error) {
+            this.logger.warn({ server: name, error }, 'Failed to forward roots change to server');
+          }
+        })
+    );
+  }
+
+  private async handleListRoots(serverName: string): Promise<{ roots: Root[] }> {
+    const config = this.configs.get(serverName);
+
+    let clientRoots: Root[] = [];
+    if (this.rootsProvider && !config?.roots?.override) {
+      this.clientRoots ??= this.rootsProvider().catch((error) => {
+        // Don't cache failures; the next request tries again
+        this.clientRoots = undefined;
+        throw error;
+      });
+      clientRoots = await this.clientRoots;
+    }
+
+    const roots = resolveServerRoots(clientRoots, config?.roots);
+    this.logger.debug({ server: serverName, roots: roots.length }, 'Answering roots/list');
+    return { roots };
+  }
+
+  /**
+   * Register the receiver of backend log messages
+   */
+  setLogMessageHandler(handler: LogMessageHandler): void {
+    this.logMessageHandler = handler;
+  }
+
+  /**
+   * Capabilities the proxy advertises to a backend, based on what the server opted into
+   */
+  private getClientCapabilities(config: MCPServerConfig): ClientCapabilities {
+    const capabilities: ClientCapabilities = {
+      elicitation: {},
+      roots: { listChanged: true },
+    };
+    if (config.sampling) {
+      capabilities.sampling = {};
+    }
+    return capabilities;
   }
 
   /**
@@ -47,22 +318,7 @@ export class MCPClientManager {
   ): Promise<void> {
     this.logger.info({ count: servers.length }, 'Initializing MCP servers');
 
-    // Apply default timeout to servers that don't have one specified
-    const serversWithTimeout = servers.map(server => ({
-      ...server,
-      timeout: server.timeout ?? defaultTimeout
-    }));
-
-    const connectionPromises = serversWithTimeout.map(async (config) => {
-      try {
-        await this.connectToServer(config);
-      } catch (error) {
-        this.logger.error(
-          { server: config.name, error },
-          'Failed to connect to MCP server'
-        );
-      }
-    });
+    const connectionPromises = servers.map((config) => this.addServer(config, defaultTimeout));
 
     await Promise.allSettled(connectionPromises);
 
@@ -76,6 +332,516 @@ export class MCPClientManager {
     );
   }
 
+  /**
+   * Register and start a single server (used at startup and when the config is reloaded)
+   * @param config - Server configuration
+   * @param defaultTimeout - Optional default timeout in seconds for servers without one
+   */
+  async addServer(config: MCPServerConfig, defaultTimeout?: number): Promise<void> {
+    if ((config.replicas ?? 1) > 1) {
+      await this.addPool(config, defaultTimeout);
+      return;
+    }
+
+    const serverConfig = {
+      ...config,
+      timeout: config.timeout ?? defaultTimeout,
+    };
+
+    if (this.isLazy(serverConfig)) {
+      await this.toolCatalog.load();
+    }
+
+    this.configs.set(serverConfig.name, serverConfig);
+
+    if (serverConfig.maxConcurrentCalls !== undefined) {
+      this.limiters.set(
+        serverConfig.name,
+        new CallLimiter(serverConfig.name, serverConfig.maxConcurrentCalls, serverConfig.maxQueueLength)
+      );
+    }
+
+    if (serverConfig.circuitBreaker) {
+      this.breakers.set(
+        serverConfig.name,
+        new CircuitBreaker(serverConfig.name, serverConfig.circuitBreaker, (state, previous) =>
+          this.handleCircuitStateChange(serverConfig.name, state, previous)
+        )
+      );
+    }
+
+    // Replicas use the limiter their pool registered
+    if (serverConfig.sampling && !this.replicaPools.has(serverConfig.name)) {
+      this.samplingLimiters.set(
+        serverConfig.name,
+        new RateLimiter(
+          serverConfig.sampling.maxRequestsPerMinute ?? this.DEFAULT_SAMPLING_REQUESTS_PER_MINUTE,
+          60000
+        )
+      );
+    }
+
+    this.scheduleHealthChecks(serverConfig);
+
+    try {
+      await this.startServer(serverConfig);
+    } catch (error) {
+      this.logger.error(
+        { server: serverConfig.name, error },
+        'Failed to connect to MCP server'
+      );
+      this.handleFailure(serverConfig.name, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Register a replicated server as replicas named serverName#1..serverName#N,
+   * each supervised like a standalone server, with tool calls routed over them
+   */
+  private async addPool(config: MCPServerConfig, defaultTimeout?: number): Promise<void> {
+    const replicaNames = Array.from({ length: config.replicas! }, (_, i) => `${config.name}#${i + 1}`);
+
+    this.pools.set(config.name, replicaNames);
+    this.poolCursors.set(config.name, 0);
+    for (const name of replicaNames) {
+      this.replicaPools.set(name, config.name);
+    }
+
+    if (config.sampling) {
+      this.samplingLimiters.set(
+        config.name,
+        new RateLimiter(config.sampling.maxRequestsPerMinute ?? this.DEFAULT_SAMPLING_REQUESTS_PER_MINUTE, 60000)
+      );
+    }
+
+    this.logger.info({ server: config.name, replicas: replicaNames.length }, 'Starting replicated MCP server');
+
+    await Promise.all(
+      replicaNames.map((name) => this.addServer({ ...config, name, replicas: undefined }, defaultTimeout))
+    );
+  }
+
+  /**
+   * Stop supervising a server and disconnect it (used when it is removed from the config)
+   */
+  async removeServer(serverName: string): Promise<void> {
+    const replicaNames = this.pools.get(serverName);
+    if (replicaNames) {
+      this.pools.delete(serverName);
+      this.poolCursors.delete(serverName);
+      this.samplingLimiters.delete(serverName);
+      await Promise.all(replicaNames.map((name) => this.removeServer(name)));
+      return;
+    }
+
+    const supervisor = this.supervisors.get(serverName);
+    clearTimeout(supervisor?.restartTimer);
+    clearTimeout(this.idleTimers.get(serverName));
+
+    this.configs.delete(serverName);
+    this.supervisors.delete(serverName);
+    this.idleTimers.delete(serverName);
+    this.activeCalls.delete(serverName);
+    this.limiters.get(serverName)?.clear(`Server '${serverName}' was removed`);
+    this.limiters.delete(serverName);
+    this.breakers.get(serverName)?.dispose();
+    this.breakers.delete(serverName);
+    clearInterval(this.healthTimers.get(serverName));
+    this.healthTimers.delete(serverName);
+    this.samplingLimiters.delete(serverName);
+    this.replicaPools.delete(serverName);
+    this.logStore.clear(serverName);
+
+    // The listing may no longer match the server's configuration, so a lazy server lists its tools again when re-added
+    try {
+      await this.toolCatalog.removeServer(serverName);
+    } catch (error) {
+      this.logger.error({ server: serverName, error }, 'Failed to remove server from tool catalog');
+    }
+
+    const connection = this.connections.get(serverName);
+    this.connections.delete(serverName);
+
+    if (connection) {
+      connection.connected = false;
+      try {
+        await connection.client.close();
+      } catch (error) {
+        this.logger.error({ server: serverName, error }, 'Error disconnecting from server');
+      }
+    }
+
+    this.logger.info({ server: serverName }, 'Removed MCP server');
+  }
+
+  private isLazy(config: MCPServerConfig): boolean {
+    return config.startMode === 'lazy';
+  }
+
+  /**
+   * Start a server at initialization (or restart) time.
+   * Lazy servers with a persisted tool catalog are deferred until their first tool call;
+   * lazy servers without one are started once to discover their tools, then stopped.
+   */
+  private async startServer(config: MCPServerConfig): Promise<void> {
+    if (this.isLazy(config) && this.toolCatalog.hasServer(config.name)) {
+      this.logger.info(
+        { server: config.name, tools: this.toolCatalog.getServerTools(config.name)!.length },
+        'Deferring lazy MCP server startup until first tool call'
+      );
+      return;
+    }
+
+    await this.connectToServer(config);
+
+    if (this.isLazy(config)) {
+      await this.stopServer(config.name, 'Stopping lazy MCP server after tool discovery');
+    }
+  }
+
+  /**
+   * Fetch the full tool listing of a running server into the tool catalog
+   * (persisted for lazy servers so they can be advertised without starting)
+   */
+  private async refreshToolCatalog(serverName: string): Promise<void> {
+    const client = this.getClient(serverName);
+    const config = this.configs.get(serverName);
+    if (!client || !config) {
+      return;
+    }
+
+    try {
+      const tools: Tool[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await client.listTools(cursor ? { cursor } : undefined);
+        tools.push(...result.tools);
+        cursor = result.nextCursor;
+      } while (cursor);
+
+      await this.toolCatalog.setServerTools(serverName, tools, this.isLazy(config));
+    } catch (error) {
+      this.logger.error({ server: serverName, error }, 'Failed to refresh tool catalog');
+    }
+  }
+
+  /**
+   * Connect a lazy server on demand, sharing a single startup between concurrent callers
+   */
+  private async ensureStarted(serverName: string): Promise<Client> {
+    const connection = this.connections.get(serverName);
+    if (connection?.connected) {
+      return connection.client;
+    }
+
+    const config = this.configs.get(serverName);
+    if (!config || !this.isLazy(config)) {
+      throw new Error(`Server '${serverName}' not found or not connected`);
+    }
+
+    let starting = this.starting.get(serverName);
+    if (!starting) {
+      this.logger.info({ server: serverName }, 'Starting lazy MCP server on first tool call');
+      starting = this.connectToServer(config).finally(() => this.starting.delete(serverName));
+      this.starting.set(serverName, starting);
+    }
+
+    await starting;
+
+    const started = this.connections.get(serverName);
+    if (!started?.connected) {
+      throw new Error(`Server '${serverName}' not found or not connected`);
+    }
+    return started.client;
+  }
+
+  /**
+   * Intentionally stop a running server (not treated as a crash)
+   */
+  private async stopServer(serverName: string, message: string): Promise<void> {
+    clearTimeout(this.idleTimers.get(serverName));
+    this.idleTimers.delete(serverName);
+
+    const connection = this.connections.get(serverName);
+    if (!connection?.connected) {
+      return;
+    }
+
+    this.logger.info({ server: serverName }, message);
+    connection.connected = false;
+    this.connections.delete(serverName);
+
+    try {
+      await connection.client.close();
+    } catch (error) {
+      this.logger.error({ server: serverName, error }, 'Error disconnecting from server');
+    }
+  }
+
+  private beginCall(serverName: string): void {
+    this.activeCalls.set(serverName, (this.activeCalls.get(serverName) ?? 0) + 1);
+    clearTimeout(this.idleTimers.get(serverName));
+    this.idleTimers.delete(serverName);
+  }
+
+  private endCall(serverName: string): void {
+    const remaining = Math.max((this.activeCalls.get(serverName) ?? 1) - 1, 0);
+    this.activeCalls.set(serverName, remaining);
+
+    const config = this.configs.get(serverName);
+    if (remaining > 0 || !config || !this.isLazy(config) || !config.idleTimeout) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      void this.stopServer(serverName, 'Stopping idle MCP server');
+    }, config.idleTimeout * 1000);
+    timer.unref();
+    this.idleTimers.set(serverName, timer);
+  }
+
+  /**
+   * Resolve the call timeout for a tool: per-tool override, then per-server, then default
+   */
+  private getCallTimeoutMs(serverName: string, toolName: string): number {
+    const config = this.configs.get(serverName);
+    const seconds = config?.toolCallTimeouts?.[toolName] ?? config?.callTimeout;
+    return seconds !== undefined ? seconds * 1000 : this.DEFAULT_CALL_TIMEOUT_MS;
+  }
+
+  /**
+   * Call a tool on a backend server, starting lazy servers on demand.
+   * Calls over the server's maxConcurrentCalls wait in its queue.
+   * Aborting the signal cancels the call on the backend; onProgress receives its progress notifications.
+   */
+  async callTool(
+    serverName: string,
+    toolName: string,
+    args: Record<string, unknown> = {},
+    signal?: AbortSignal,
+    onProgress?: (progress: Progress) => void
+  ): ReturnType<Client['callTool']> {
+    if (this.pools.has(serverName)) {
+      return this.callReplicatedTool(serverName, toolName, args, signal, onProgress);
+    }
+
+    const timeoutMs = this.getCallTimeoutMs(serverName, toolName);
+    const limiter = this.limiters.get(serverName);
+    const breaker = this.breakers.get(serverName);
+
+    const invoke = async () => {
+      const client = await this.ensureStarted(serverName);
+
+      this.beginCall(serverName);
+      try {
+        return await client.callTool({ name: toolName, arguments: args }, undefined, {
+          signal,
+          timeout: timeoutMs,
+          onprogress: onProgress,
+        });
+      } finally {
+        this.endCall(serverName);
+      }
+    };
+
+    const guarded = breaker ? () => breaker.run(invoke, signal) : invoke;
+
+    try {
+      // Fail fast on an open circuit instead of waiting in the queue first
+      breaker?.assertCallAllowed();
+      return limiter ? await limiter.run(guarded, signal) : await guarded();
+    } catch (error) {
+      if (signal?.aborted) {
+        this.logger.info({ server: serverName, tool: toolName }, 'Tool call cancelled by client');
+        throw new Error(`Tool call '${toolName}' on server '${serverName}' was cancelled`);
+      }
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+        this.logger.warn({ server: serverName, tool: toolName, timeoutMs }, 'Tool call timed out');
+        throw new Error(`Tool call '${toolName}' on server '${serverName}' timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Call a tool on a replicated server. When the chosen replica turns out to be
+   * disconnected, the call fails over to the next one.
+   */
+  private async callReplicatedTool(
+    serverName: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onProgress?: (progress: Progress) => void
+  ): ReturnType<Client['callTool']> {
+    const candidates = this.selectReplicas(serverName);
+    if (candidates.length === 0) {
+      throw new Error(`No replica of server '${serverName}' is available`);
+    }
+
+    let lastError: unknown;
+    for (const replica of candidates) {
+      try {
+        return await this.callTool(replica, toolName, args, signal, onProgress);
+      } catch (error) {
+        // Tool errors, timeouts and cancellations are final; only a lost replica fails over
+        if (signal?.aborted || this.connections.get(replica)?.connected) {
+          throw error;
+        }
+        lastError = error;
+        this.logger.warn(
+          { server: serverName, replica, tool: toolName, error },
+          'Replica unavailable, failing over to the next replica'
+        );
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Order the replicas for the next tool call and move the round-robin cursor on
+   */
+  private selectReplicas(serverName: string): string[] {
+    const replicaNames = this.pools.get(serverName) ?? [];
+    const cursor = this.poolCursors.get(serverName) ?? 0;
+    this.poolCursors.set(serverName, (cursor + 1) % Math.max(replicaNames.length, 1));
+    return this.orderReplicas(serverName, cursor);
+  }
+
+  /**
+   * Order the replicas that can take a call right now (available, circuit not open)
+   * by the server's loadBalancing strategy, starting at the given round-robin position
+   */
+  private orderReplicas(serverName: string, cursor: number): string[] {
+    const replicaNames = this.pools.get(serverName) ?? [];
+
+    // Rotating first also makes round-robin the tie-breaker for least-busy
+    const candidates = [...replicaNames.slice(cursor), ...replicaNames.slice(0, cursor)].filter(
+      (name) => this.isServerAvailable(name) && this.breakers.get(name)?.getState() !== 'open'
+    );
+
+    if (this.configs.get(replicaNames[0])?.loadBalancing === 'least-busy') {
+      candidates.sort((a, b) => this.getLoad(a) - this.getLoad(b));
+    }
+    return candidates;
+  }
+
+  /**
+   * Calls running on a server plus calls waiting in its queue
+   */
+  private getLoad(serverName: string): number {
+    return (this.activeCalls.get(serverName) ?? 0) + (this.limiters.get(serverName)?.getStats().queuedCalls ?? 0);
+  }
+
+  /**
+   * Forward an argument completion request to a backend server.
+   * Servers that don't declare the completions capability get an empty result.
+   */
+  async complete(serverName: string, params: CompleteRequest['params']): Promise<CompleteResult> {
+    const client = this.getClient(serverName);
+    if (!client) {
+      throw new Error(`Server '${serverName}' not found or not connected`);
+    }
+
+    if (!client.getServerCapabilities()?.completions) {
+      return { completion: { values: [] } };
+    }
+
+    return client.complete(params);
+  }
+
+  private handleCircuitStateChange(
+    serverName: string,
+    state: CircuitState,
+    previous: CircuitState
+  ): void {
+    const breaker = this.breakers.get(serverName);
+    const circuit = breaker?.getStats();
+
+    if (state === 'open') {
+      this.logger.warn(
+        { server: serverName, previous, lastFailure: circuit?.lastFailure },
+        'Circuit breaker opened, failing calls fast'
+      );
+    } else if (state === 'half-open') {
+      this.logger.info({ server: serverName }, 'Circuit breaker half-open, next call is a probe');
+    } else {
+      this.logger.info({ server: serverName }, 'Circuit breaker closed');
+    }
+
+    if (!this.configs.get(serverName)?.circuitBreaker?.hideTools) {
+      return;
+    }
+
+    // Hidden tools receive no calls, so probe the server directly
+    if (state === 'half-open') {
+      void this.probeServer(serverName);
+    }
+
+    // Tools are hidden in both open and half-open states
+    if ((previous === 'closed') !== (state === 'closed')) {
+      this.scheduleToolListChanged();
+    }
+  }
+
+  /**
+   * Ping a server through its half-open circuit breaker
+   */
+  private async probeServer(serverName: string): Promise<void> {
+    const breaker = this.breakers.get(serverName);
+    const config = this.configs.get(serverName);
+    if (!breaker || !config) {
+      return;
+    }
+
+    try {
+      await breaker.run(async () => {
+        const client = await this.ensureStarted(serverName);
+
+        // Counted as a call so a lazy server started by the probe gets its idle timer
+        this.beginCall(serverName);
+        try {
+          await client.ping({ timeout: (config.timeout ?? this.DEFAULT_TIMEOUT_MS / 1000) * 1000 });
+        } finally {
+          this.endCall(serverName);
+        }
+      });
+    } catch (error) {
+      this.logger.debug({ server: serverName, error }, 'Circuit breaker probe failed');
+    }
+  }
+
+  /**
+   * Create the client transport for a server based on its configured type
+   */
+  private createTransport(config: MCPServerConfig): Transport {
+    const type = config.type ?? 'stdio';
+
+    if (type === 'http' || type === 'sse') {
+      if (!config.url) {
+        throw new Error(`Server '${config.name}' of type "${type}" requires a url`);
+      }
+
+      const url = new URL(config.url);
+      const requestInit = config.headers ? { headers: config.headers } : undefined;
+
+      return type === 'http'
+        ? new StreamableHTTPClientTransport(url, { requestInit })
+        : new SSEClientTransport(url, { requestInit });
+    }
+
+    if (!config.command) {
+      throw new Error(`Server '${config.name}' of type "stdio" requires a command`);
+    }
+
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args,
+      env: config.env,
+      stderr: 'pipe', // Captured into the server's log buffer
+    });
+  }
+
   /**
    * Connect to a single MCP server with timeout
    */
@@ -86,15 +852,15 @@ export class MCPClientManager {
       : this.DEFAULT_TIMEOUT_MS;
 
     this.logger.info(
-      { server: config.name, timeoutMs },
+      { server: config.name, transport: config.type ?? 'stdio', timeoutMs },
       'Connecting to MCP server'
     );
 
-    const transport = new StdioClientTransport({
-      command: config.command,
-      args: config.args,
-      env: config.env,
-    });
+    const transport = this.createTransport(config);
+
+    if (transport instanceof StdioClientTransport && transport.stderr) {
+      this.logStore.attach(config.name, transport.stderr, config.logToFile === true);
+    }
 
     const client = new Client(
       {
@@ -102,10 +868,27 @@ export class MCPClientManager {
         version: '0.1.0',
       },
       {
-        capabilities: {},
+        capabilities: this.getClientCapabilities(config),
       }
     );
 
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      await this.handleBackendToolListChanged(config.name, client);
+    });
+    client.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+      this.logMessageHandler?.(config.name, notification.params);
+    });
+
+    if (config.sampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) =>
+        this.handleSamplingRequest(config.name, request.params, extra.signal)
+      );
+    }
+    client.setRequestHandler(ElicitRequestSchema, async (request, extra) =>
+      this.handleElicitationRequest(config.name, request.params, extra.signal)
+    );
+    client.setRequestHandler(ListRootsRequestSchema, async () => this.handleListRoots(config.name));
+
     try {
       // Wrap connection with timeout
       await this.withTimeout(
@@ -113,55 +896,421 @@ export class MCPClientManager {
         timeoutMs
       );
 
-      this.connections.set(config.name, {
+      if (this.configs.get(config.name) !== config) {
+        // Server was removed or reconfigured while connecting
+        await client.close().catch(() => undefined);
+        return;
+      }
+
+      const connection: MCPClientConnection = {
         name: config.name,
         client,
         transport,
         connected: true,
-      });
+      };
+
+      this.connections.set(config.name, connection);
+      this.supervise(connection);
+
+      const supervisor = this.getSupervisor(config.name);
+      supervisor.connectedAt = Date.now();
 
       this.logger.info({ server: config.name }, 'Successfully connected to MCP server');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
+      // The backend's own output usually explains why it failed to start
+      const stderrTail = this.logStore.getLines(config.name, 5);
+      if (stderrTail.length > 0) {
+        this.logger.error({ server: config.name, stderr: stderrTail }, 'MCP server stderr before failure');
+      }
+
       this.connections.set(config.name, {
         name: config.name,
         client,
         transport,
         connected: false,
-        lastError: errorMessage,
+        lastError: stderrTail.length > 0
+          ? `${errorMessage} (last stderr: ${stderrTail[stderrTail.length - 1]})`
+          : errorMessage,
       });
 
+      // Don't leave a half-started backend behind (e.g. a child process that missed the timeout)
+      client.close().catch(() => undefined);
+
       throw error;
     }
+
+    await this.refreshToolCatalog(config.name);
+  }
+
+  /**
+   * Watch a live connection for transport errors and unexpected closes
+   */
+  private supervise(connection: MCPClientConnection): void {
+    const { client, name } = connection;
+
+    client.onerror = (error: Error) => {
+      connection.lastError = error.message;
+      this.logger.warn({ server: name, error: error.message }, 'MCP server transport error');
+    };
+
+    client.onclose = () => {
+      // Ignore closes of replaced connections and closes we initiated
+      if (this.connections.get(name) !== connection || !connection.connected) {
+        return;
+      }
+
+      connection.connected = false;
+      const reason = connection.lastError ?? 'Connection closed unexpectedly';
+      connection.lastError = reason;
+
+      this.logger.error({ server: name, reason }, 'MCP server connection lost');
+
+      // Its tools drop out of the listing unless it is an idle lazy server
+      if (!this.isIdle(name)) {
+        this.scheduleToolListChanged();
+      }
+
+      const supervisor = this.getSupervisor(name);
+      supervisor.lastCrashReason = reason;
+      supervisor.lastCrashAt = new Date().toISOString();
+
+      // A crash after a long stable run starts a fresh backoff sequence
+      if (supervisor.connectedAt && Date.now() - supervisor.connectedAt >= this.STABLE_CONNECTION_MS) {
+        supervisor.consecutiveFailures = 0;
+      }
+
+      this.handleFailure(name, reason);
+    };
+  }
+
+  private scheduleHealthChecks(config: MCPServerConfig): void {
+    const intervalMs = config.healthCheckInterval !== undefined
+      ? config.healthCheckInterval * 1000
+      : this.DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+    if (intervalMs <= 0) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      void this.checkHealth(config.name);
+    }, intervalMs);
+    timer.unref();
+    this.healthTimers.set(config.name, timer);
+  }
+
+  /**
+   * Ping a connected server and record its latency. After repeated failures the
+   * connection is closed so supervision can reconnect it.
+   */
+  async checkHealth(serverName: string): Promise<void> {
+    const connection = this.connections.get(serverName);
+    if (!connection?.connected) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    try {
+      await connection.client.ping({ timeout: this.HEALTH_CHECK_TIMEOUT_MS });
+      connection.latencyMs = Date.now() - startedAt;
+      connection.lastPingAt = new Date().toISOString();
+      connection.failedPings = 0;
+      connection.lastPingError = undefined;
+    } catch (error) {
+      // The connection may have been closed or replaced while the ping was pending
+      if (this.connections.get(serverName) !== connection || !connection.connected) {
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      connection.failedPings = (connection.failedPings ?? 0) + 1;
+      connection.lastPingError = message;
+      this.logger.warn(
+        { server: serverName, failedPings: connection.failedPings, error: message },
+        'MCP server health check failed'
+      );
+
+      if (connection.failedPings >= this.MAX_FAILED_PINGS) {
+        connection.lastError = `Health check failed ${connection.failedPings} times: ${message}`;
+        this.logger.error({ server: serverName }, 'MCP server unresponsive, closing connection');
+        try {
+          await connection.client.close();
+        } catch (closeError) {
+          this.logger.error({ server: serverName, error: closeError }, 'Error disconnecting from server');
+        }
+      }
+    }
+  }
+
+  /**
+   * Ping every connected server now
+   */
+  async checkAllHealth(): Promise<void> {
+    await Promise.allSettled(Array.from(this.connections.keys()).map((name) => this.checkHealth(name)));
+  }
+
+  private getSupervisor(serverName: string): SupervisorState {
+    let supervisor = this.supervisors.get(serverName);
+    if (!supervisor) {
+      supervisor = { restarts: 0, consecutiveFailures: 0 };
+      this.supervisors.set(serverName, supervisor);
+    }
+    return supervisor;
+  }
+
+  /**
+   * Schedule a reconnection according to the server's restart policy
+   */
+  private handleFailure(serverName: string, reason: string): void {
+    const config = this.configs.get(serverName);
+    if (!config) {
+      return;
+    }
+
+    const policy = config.restartPolicy ?? 'on-failure';
+    const supervisor = this.getSupervisor(serverName);
+
+    if (this.isLazy(config) && this.toolCatalog.hasServer(serverName)) {
+      this.logger.info({ server: serverName, reason }, 'Lazy MCP server stopped, it will start again on the next tool call');
+      return;
+    }
+
+    if (policy === 'never') {
+      this.logger.info({ server: serverName, reason }, 'Restart policy is "never", leaving server disconnected');
+      return;
+    }
+
+    const maxRestarts = config.maxRestarts ?? this.DEFAULT_MAX_RESTARTS;
+    if (policy === 'on-failure' && supervisor.consecutiveFailures >= maxRestarts) {
+      this.logger.error(
+        { server: serverName, maxRestarts, reason },
+        'MCP server exceeded maximum restart attempts, giving up'
+      );
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.INITIAL_RESTART_DELAY_MS * 2 ** supervisor.consecutiveFailures,
+      this.MAX_RESTART_DELAY_MS
+    );
+    supervisor.consecutiveFailures += 1;
+
+    this.logger.info(
+      { server: serverName, attempt: supervisor.consecutiveFailures, delayMs },
+      'Scheduling MCP server restart'
+    );
+
+    clearTimeout(supervisor.restartTimer);
+    supervisor.restartTimer = setTimeout(() => {
+      supervisor.restartTimer = undefined;
+      void this.restartServer(serverName);
+    }, delayMs);
+    supervisor.restartTimer.unref();
+  }
+
+  /**
+   * Reconnect a server that crashed or failed to connect
+   */
+  private async restartServer(serverName: string): Promise<void> {
+    const config = this.configs.get(serverName);
+    if (!config) {
+      return;
+    }
+
+    const supervisor = this.getSupervisor(serverName);
+    supervisor.restarts += 1;
+
+    try {
+      await this.startServer(config);
+      this.logger.info({ server: serverName, restarts: supervisor.restarts }, 'MCP server restarted');
+
+      // An eager server's tools are listed again (lazy ones stayed listed from their catalog)
+      if (!this.isLazy(config)) {
+        this.scheduleToolListChanged();
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error({ server: serverName, error }, 'Failed to restart MCP server');
+      this.handleFailure(serverName, reason);
+    }
   }
 
   /**
-   * Get a connected client by server name
+   * Get a connected client by server name (for a replicated server, a connected replica;
+   * the round-robin order of tool calls is left alone)
    */
   getClient(serverName: string): Client | undefined {
+    if (this.pools.has(serverName)) {
+      const cursor = this.poolCursors.get(serverName) ?? 0;
+      const replica = this.orderReplicas(serverName, cursor).find((name) => this.connections.get(name)?.connected);
+      return replica ? this.getClient(replica) : undefined;
+    }
+
     const connection = this.connections.get(serverName);
     return connection?.connected ? connection.client : undefined;
   }
 
   /**
-   * Get all connected clients
+   * Get all connected clients, one per replicated server
    */
   getConnectedClients(): Array<{ name: string; client: Client }> {
-    return Array.from(this.connections.values())
-      .filter((conn) => conn.connected)
-      .map((conn) => ({ name: conn.name, client: conn.client }));
+    const clients = new Map<string, Client>();
+    for (const conn of this.connections.values()) {
+      const name = this.replicaPools.get(conn.name) ?? conn.name;
+      if (conn.connected && !clients.has(name)) {
+        clients.set(name, conn.client);
+      }
+    }
+    return Array.from(clients, ([name, client]) => ({ name, client }));
+  }
+
+  /**
+   * Get the last lines a backend wrote to stderr (for a replicated server, of each replica)
+   */
+  getServerLogs(serverName: string, lines: number): string[] {
+    const replicaNames = this.pools.get(serverName);
+    if (replicaNames) {
+      return replicaNames.flatMap((name) =>
+        this.logStore.getLines(name, lines).map((line) => `[${name}] ${line}`)
+      );
+    }
+    return this.logStore.getLines(serverName, lines);
+  }
+
+  /**
+   * Check if a server's tools are hidden because its circuit breaker is not closed
+   */
+  isServerHidden(serverName: string): boolean {
+    const replicaNames = this.pools.get(serverName);
+    if (replicaNames) {
+      return replicaNames.every((name) => this.isServerHidden(name));
+    }
+
+    const breaker = this.breakers.get(serverName);
+    return (
+      breaker !== undefined &&
+      this.configs.get(serverName)?.circuitBreaker?.hideTools === true &&
+      breaker.getState() !== 'closed'
+    );
+  }
+
+  /**
+   * Whether tool calls can be routed to a server (connected, or lazy and startable)
+   */
+  isServerAvailable(serverName: string): boolean {
+    const replicaNames = this.pools.get(serverName);
+    if (replicaNames) {
+      return replicaNames.some((name) => this.isServerAvailable(name));
+    }
+    if (this.connections.get(serverName)?.connected) {
+      return true;
+    }
+    const config = this.configs.get(serverName);
+    return !!config && this.isLazy(config);
+  }
+
+  private isIdle(serverName: string): boolean {
+    const config = this.configs.get(serverName);
+    return !!config &&
+      this.isLazy(config) &&
+      !this.connections.get(serverName)?.connected &&
+      this.toolCatalog.hasServer(serverName);
+  }
+
+  /**
+   * Get cached tool listings for lazy servers that are not currently running
+   */
+  getIdleServerTools(): Array<{ name: string; tools: Tool[] }> {
+    return Array.from(this.configs.keys())
+      .filter((name) => this.isIdle(name))
+      .map((name) => ({ name, tools: this.toolCatalog.getServerTools(name)! }));
+  }
+
+  /**
+   * Get the catalogued tools of a server that is connected or idle,
+   * or undefined if the server is unavailable or has not been listed yet
+   */
+  getServerTools(serverName: string): Tool[] | undefined {
+    const replicaNames = this.pools.get(serverName);
+    if (replicaNames) {
+      return replicaNames.map((name) => this.getServerTools(name)).find((tools) => tools !== undefined);
+    }
+    if (!this.connections.get(serverName)?.connected && !this.isIdle(serverName)) {
+      return undefined;
+    }
+    return this.toolCatalog.getServerTools(serverName);
+  }
+
+  /**
+   * Get the catalogued tools of every connected or idle server
+   */
+  getAvailableTools(): Array<{ name: string; tools: Tool[] }> {
+    const tools: Array<{ name: string; tools: Tool[] }> = [];
+    for (const name of this.getServerNames()) {
+      const serverTools = this.getServerTools(name);
+      if (serverTools) {
+        tools.push({ name, tools: serverTools });
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * Names of configured servers, with replicas reported under their replicated server's name
+   */
+  private getServerNames(): string[] {
+    return Array.from(new Set(Array.from(this.configs.keys(), (name) => this.replicaPools.get(name) ?? name)));
   }
 
   /**
    * Get status of all servers
    */
   getServerStatuses(): ServerStatus[] {
-    return Array.from(this.connections.values()).map((conn) => ({
-      name: conn.name,
-      connected: conn.connected,
-      lastError: conn.lastError,
-    }));
+    const names = new Set(
+      [...this.configs.keys(), ...this.connections.keys()].map((name) => this.replicaPools.get(name) ?? name)
+    );
+
+    return Array.from(names).map((name) => {
+      const replicaNames = this.pools.get(name);
+      return replicaNames ? this.getPoolStatus(name, replicaNames) : this.getServerStatus(name);
+    });
+  }
+
+  private getServerStatus(name: string): ServerStatus {
+    const conn = this.connections.get(name);
+    const supervisor = this.supervisors.get(name);
+    return {
+      name,
+      connected: conn?.connected ?? false,
+      idle: this.isIdle(name) || undefined,
+      lastError: conn?.lastError,
+      restarts: supervisor?.restarts ?? 0,
+      lastCrashReason: supervisor?.lastCrashReason,
+      lastCrashAt: supervisor?.lastCrashAt,
+      latencyMs: conn?.latencyMs,
+      lastPingAt: conn?.lastPingAt,
+      failedPings: conn?.failedPings,
+      lastPingError: conn?.lastPingError,
+      callQueue: this.limiters.get(name)?.getStats(),
+      circuit: this.breakers.get(name)?.getStats(),
+    };
+  }
+
+  /**
+   * Summarize a replicated server: connected while any replica is, with per-replica details
+   */
+  private getPoolStatus(name: string, replicaNames: string[]): ServerStatus {
+    const replicas = replicaNames.map((replica) => this.getServerStatus(replica));
+    const connected = replicas.some((replica) => replica.connected);
+    return {
+      name,
+      connected,
+      idle: (!connected && replicas.every((replica) => replica.idle)) || undefined,
+      lastError: connected ? undefined : replicas.find((replica) => replica.lastError)?.lastError,
+      restarts: replicas.reduce((sum, replica) => sum + (replica.restarts ?? 0), 0),
+      replicas,
+    };
   }
 
   /**
@@ -177,8 +1326,38 @@ export class MCPClientManager {
   async disconnectAll(): Promise<void> {
     this.logger.info('Disconnecting from all MCP servers');
 
+    // Stop supervision first so intentional closes are not treated as crashes
+    for (const supervisor of this.supervisors.values()) {
+      clearTimeout(supervisor.restartTimer);
+    }
+    for (const timer of this.idleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.supervisors.clear();
+    this.idleTimers.clear();
+    this.activeCalls.clear();
+    for (const limiter of this.limiters.values()) {
+      limiter.clear('Proxy is shutting down');
+    }
+    this.limiters.clear();
+    for (const breaker of this.breakers.values()) {
+      breaker.dispose();
+    }
+    this.breakers.clear();
+    for (const timer of this.healthTimers.values()) {
+      clearInterval(timer);
+    }
+    this.healthTimers.clear();
+    this.samplingLimiters.clear();
+    this.pools.clear();
+    this.replicaPools.clear();
+    this.poolCursors.clear();
+    clearTimeout(this.toolListChangedTimer);
+    this.configs.clear();
+
     const disconnectPromises = Array.from(this.connections.values()).map(
       async (conn) => {
+        conn.connected = false;
         try {
           await conn.client.close();
         } catch (error) {
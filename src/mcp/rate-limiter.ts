@@ -0,0 +1,40 @@
+/**
+ * Rolling-window rate limiter: allows at most maxEvents within any windowMs period
+ */
+export class RateLimiter {
+  private maxEvents: number;
+  private windowMs: number;
+  private timestamps: number[] = [];
+
+  constructor(maxEvents: number, windowMs: number) {
+    this.maxEvents = maxEvents;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Record an event if the limit allows it. Returns false when the limit is reached.
+   */
+  tryAcquire(): boolean {
+    const now = Date.now();
+    while (this.timestamps.length > 0 && now - this.timestamps[0] >= this.windowMs) {
+      this.timestamps.shift();
+    }
+
+    if (this.timestamps.length >= this.maxEvents) {
+      return false;
+    }
+
+    this.timestamps.push(now);
+    return true;
+  }
+
+  /**
+   * Milliseconds until the next event would be allowed (0 if allowed now)
+   */
+  getRetryAfterMs(): number {
+    if (this.timestamps.length < this.maxEvents) {
+      return 0;
+    }
+    return Math.max(0, this.timestamps[0] + this.windowMs - Date.now());
+  }
+}
@@ -0,0 +1,26 @@
+import { pathToFileURL } from 'url';
+import type { Root } from '@modelcontextprotocol/sdk/types.js';
+import type { RootsConfig } from '../types/index.js';
+import { matchesIgnorePattern } from '../config/loader.js';
+
+/**
+ * Turn a configured root (URI or absolute path) into a Root
+ */
+function toRoot(entry: string): Root {
+  const uri = /^[a-z][a-z0-9+.-]*:\/\//i.test(entry) ? entry : pathToFileURL(entry).href;
+  return { uri };
+}
+
+/**
+ * Compute the roots a backend server sees from the client's roots and its roots config:
+ * override replaces the client's roots, allow keeps only client roots matching a pattern
+ */
+export function resolveServerRoots(clientRoots: Root[], config?: RootsConfig): Root[] {
+  if (config?.override) {
+    return config.override.map(toRoot);
+  }
+  if (config?.allow) {
+    return clientRoots.filter((root) => matchesIgnorePattern(root.uri, config.allow!));
+  }
+  return clientRoots;
+}
@@ -0,0 +1,184 @@
+import type { Logger } from 'pino';
+import type { CompressionCache } from './compression-cache.js';
+import { splitIntoBatches, type CompressionProvider, type UncompressedTool } from './compression-provider.js';
+import type { CompressedParameter } from '../types/compression.js';
+
+/**
+ * Failed requests in a row after which a run gives up
+ */
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Outcome of one compression run
+ */
+export interface CompressionRunResult {
+  compressed: number; // Tools saved to the cache
+  failed: number; // Tools whose request failed or that the model left out
+}
+
+/**
+ * Compresses uncached tool descriptions in the background through a CompressionProvider.
+ * Runs happen one after another: schedule() queues a run unless one is already waiting
+ * (at startup and when tools change), compressNow() queues one and waits for its result.
+ */
+export class AutoCompressor {
+  private logger: Logger;
+  private provider: CompressionProvider;
+  private compressionCache: CompressionCache;
+  private listUncompressed: () => Promise<UncompressedTool[]>;
+  private onCompressed: () => void;
+  private queue: Promise<unknown> = Promise.resolve();
+  private runQueued = false;
+  private abortController = new AbortController();
+
+  constructor(
+    logger: Logger,
+    provider: CompressionProvider,
+    compressionCache: CompressionCache,
+    listUncompressed: () => Promise<UncompressedTool[]>,
+    onCompressed: () => void
+  ) {
+    this.logger = logger;
+    this.provider = provider;
+    this.compressionCache = compressionCache;
+    this.listUncompressed = listUncompressed;
+    this.onCompressed = onCompressed;
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Whether the provider can take requests right now
+   */
+  isAvailable(): boolean {
+    return this.provider.isAvailable?.() !== false;
+  }
+
+  /**
+   * Queue a run unless one is already waiting to start
+   */
+  schedule(): void {
+    if (this.abortController.signal.aborted || this.runQueued) {
+      return;
+    }
+    this.runQueued = true;
+    this.queue = this.queue.then(() => {
+      this.runQueued = false;
+      return this.run();
+    });
+  }
+
+  /**
+   * Queue a run and wait for its result
+   */
+  compressNow(): Promise<CompressionRunResult> {
+    const run = this.queue.then(() => this.run());
+    this.queue = run;
+    return run;
+  }
+
+  /**
+   * Resolves once no run is in progress or queued
+   */
+  async whenIdle(): Promise<void> {
+    let current: Promise<unknown>;
+    do {
+      current = this.queue;
+      await current;
+    } while (current !== this.queue);
+  }
+
+  /**
+   * Cancel the current run and ignore further triggers
+   */
+  stop(): void {
+    this.abortController.abort();
+  }
+
+  /**
+   * Compress every uncached tool, one batch per request. Tools that fail are skipped
+   * until the next run; consecutive failed requests end the run (the provider is likely down).
+   */
+  private async run(): Promise<CompressionRunResult> {
+    const signal = this.abortController.signal;
+    const result: CompressionRunResult = { compressed: 0, failed: 0 };
+
+    if (signal.aborted || this.provider.isAvailable?.() === false) {
+      return result;
+    }
+
+    let tools: UncompressedTool[];
+    try {
+      tools = await this.listUncompressed();
+    } catch (error) {
+      this.logger.warn({ error }, 'Failed to list uncompressed tools');
+      return result;
+    }
+    if (tools.length === 0) {
+      return result;
+    }
+
+    this.logger.info({ provider: this.provider.name, count: tools.length }, 'Compressing uncached tool descriptions');
+
+    let consecutiveFailures = 0;
+    for (const batch of splitIntoBatches(tools, this.provider.batchSize, this.provider.maxTokens)) {
+      if (signal.aborted) {
+        break;
+      }
+
+      try {
+        const compressed = await this.provider.compress(batch, signal);
+        if (signal.aborted) {
+          break;
+        }
+
+        batch.forEach((tool, index) => {
+          const entry = compressed[index];
+          if (!entry) {
+            this.logger.warn({ serverName: tool.serverName, toolName: tool.toolName }, 'No compressed description returned for tool');
+            result.failed++;
+            return;
+          }
+
+          const parameters: Record<string, CompressedParameter> = {};
+          for (const [name, description] of Object.entries(entry.parameters ?? {})) {
+            parameters[name] = { original: tool.parameters?.[name], compressed: description };
+          }
+          this.compressionCache.saveCompressed(tool.serverName, tool.toolName, entry.description, tool.description, parameters);
+          result.compressed++;
+        });
+        consecutiveFailures = 0;
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+        result.failed += batch.length;
+        consecutiveFailures++;
+        this.logger.warn(
+          { provider: this.provider.name, tools: batch.map((t) => `${t.serverName}:${t.toolName}`), error },
+          'Failed to compress tool descriptions'
+        );
+        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+          this.logger.warn({ provider: this.provider.name, ...result }, 'Compression stopped after repeated failures');
+          break;
+        }
+      }
+    }
+
+    if (result.compressed === 0) {
+      return result;
+    }
+
+    this.logger.info({ provider: this.provider.name, ...result }, 'Saved compressed descriptions');
+
+    try {
+      await this.compressionCache.saveToDisk();
+    } catch (error) {
+      this.logger.error({ error }, 'Failed to persist cache to disk');
+    }
+    this.onCompressed();
+    return result;
+  }
+}
@@ -1,11 +1,14 @@
-import type { CompressedToolCache, CompressionStats } from '../types/compression.js';
+import type { CompressedToolCache, CompressionStats, CompressedParameter } from '../types/compression.js';
 import type { CacheMetrics } from '../types/compression.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { Logger } from 'pino';
 import { CompressionPersistence } from './compression-persistence.js';
-import { matchesIgnorePattern } from '../config/loader.js';
+import { DEFAULT_NAMESPACE_SEPARATOR, matchesIgnorePattern } from '../config/loader.js';
+import type { SchemaMinificationLevel } from '../types/index.js';
+import { minifySchema } from './schema-minifier.js';
 
 /**
- * In-memory cache for compressed tool descriptions
+ * In-memory cache for compressed tool descriptions and inputSchema parameter descriptions
  * Key format: "serverName:toolName"
  */
 export class CompressionCache {
@@ -13,6 +16,8 @@ export class CompressionCache {
   private logger: Logger;
   private persistence: CompressionPersistence;
   private noCompressPatterns: string[] = [];
+  private namespaceSeparator: string = DEFAULT_NAMESPACE_SEPARATOR;
+  private schemaMinification: SchemaMinificationLevel = 'none';
 
   constructor(logger: Logger, persistence?: CompressionPersistence) {
     this.logger = logger;
@@ -31,6 +36,25 @@ export class CompressionCache {
     );
   }
 
+  /**
+   * Set the separator used to build the exposed tool names noCompress patterns match against
+   */
+  setNamespaceSeparator(separator: string): void {
+    this.namespaceSeparator = separator;
+  }
+
+  /**
+   * Set how much of the advertised inputSchemas is stripped (full schemas are still shown
+   * for expanded and noCompress tools)
+   */
+  setSchemaMinification(level: SchemaMinificationLevel): void {
+    this.schemaMinification = level;
+  }
+
+  getSchemaMinification(): SchemaMinificationLevel {
+    return this.schemaMinification;
+  }
+
   /**
    * Get all cached entries (for reporting/stats)
    */
@@ -40,6 +64,7 @@ export class CompressionCache {
     original?: string;
     compressed: string;
     compressedAt: string;
+    parameters?: Record<string, CompressedParameter>;
   }> {
     return Object.entries(this.cache).map(([key, value]) => {
       const [serverName, toolName] = key.split(':');
@@ -49,6 +74,7 @@ export class CompressionCache {
         original: value.original,
         compressed: value.compressed,
         compressedAt: value.compressedAt,
+        parameters: value.parameters,
       };
     });
   }
@@ -69,14 +95,15 @@ export class CompressionCache {
   }
 
   /**
-   * Save compressed description for a tool
+   * Save compressed description (and optionally compressed parameter descriptions) for a tool
    * Always saves compression to cache regardless of noCompress patterns
    */
   saveCompressed(
     serverName: string,
     toolName: string,
     compressedDescription: string,
-    originalDescription?: string
+    originalDescription?: string,
+    parameters?: Record<string, CompressedParameter>
   ): void {
     const key = this.getKey(serverName, toolName);
 
@@ -84,10 +111,11 @@ export class CompressionCache {
       original: originalDescription,
       compressed: compressedDescription,
       compressedAt: new Date().toISOString(),
+      ...(parameters && Object.keys(parameters).length > 0 && { parameters }),
     };
 
     this.logger.debug(
-      { serverName, toolName },
+      { serverName, toolName, parameters: parameters ? Object.keys(parameters).length : 0 },
       'Saved compressed description'
     );
   }
@@ -105,7 +133,7 @@ export class CompressionCache {
     originalDescription?: string,
     isExpandedInSession?: boolean
   ): string | undefined {
-    const fullToolName = `${serverName}__${toolName}`;
+    const fullToolName = `${serverName}${this.namespaceSeparator}${toolName}`;
     const key = this.getKey(serverName, toolName);
 
     // Always bypass compression for noCompress patterns
@@ -122,6 +150,48 @@ export class CompressionCache {
     return this.cache[key]?.compressed || originalDescription;
   }
 
+  /**
+   * Get inputSchema for a tool (session-aware), following the same rules as getDescription:
+   * compressed parameter descriptions replace the property descriptions and the schema is
+   * minified, unless the tool matches a noCompress pattern or is expanded in the session
+   */
+  getInputSchema(
+    serverName: string,
+    toolName: string,
+    inputSchema: Tool['inputSchema'],
+    isExpandedInSession?: boolean
+  ): Tool['inputSchema'] {
+    const parameters = this.cache[this.getKey(serverName, toolName)]?.parameters;
+    const fullToolName = `${serverName}${this.namespaceSeparator}${toolName}`;
+
+    if (isExpandedInSession || this.shouldBypassCompression(fullToolName)) {
+      return inputSchema;
+    }
+
+    let schema = inputSchema;
+    if (parameters && inputSchema.properties) {
+      const properties: Record<string, object> = {};
+      for (const [name, property] of Object.entries(inputSchema.properties as Record<string, object>)) {
+        properties[name] = Object.hasOwn(parameters, name)
+          ? { ...property, description: parameters[name].compressed }
+          : property;
+      }
+      schema = { ...inputSchema, properties };
+    }
+    return minifySchema(schema, this.schemaMinification);
+  }
+
+  /**
+   * Get compressed parameter descriptions if cached
+   */
+  getCompressedParameters(
+    serverName: string,
+    toolName: string
+  ): Record<string, CompressedParameter> | undefined {
+    const key = this.getKey(serverName, toolName);
+    return this.cache[key]?.parameters;
+  }
+
   /**
    * Check if a tool has compressed description
    */
@@ -177,8 +247,12 @@ export class CompressionCache {
     let latestCompressedAt: string | undefined;
 
     for (const entry of entries) {
-      const originalLength = entry.original?.length ?? 0;
-      const compressedLength = entry.compressed.length;
+      // Parameter descriptions count towards the tool's totals
+      const parameters = Object.values(entry.parameters ?? {});
+      const originalLength = (entry.original?.length ?? 0) +
+        parameters.reduce((sum, param) => sum + (param.original?.length ?? 0), 0);
+      const compressedLength = entry.compressed.length +
+        parameters.reduce((sum, param) => sum + param.compressed.length, 0);
 
       if (!perServer[entry.serverName]) {
         perServer[entry.serverName] = {
@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import type { Logger } from 'pino';
+import type { CompressedToolEntry } from '../types/compression.js';
 
 /**
  * Persistent storage format for compressed tool descriptions
@@ -15,6 +16,10 @@ interface PersistedCompressionCache {
     originalDescription?: string;
     compressedDescription: string;
     compressedAt: string;
+    parameters?: Record<string, {
+      originalDescription?: string;
+      compressedDescription: string;
+    }>;
   }>;
 }
 
@@ -36,8 +41,8 @@ export class CompressionPersistence {
   /**
    * Load cached compressions from disk
    */
-  async load(): Promise<Map<string, { original?: string; compressed: string; compressedAt: string }>> {
-    const cache = new Map<string, { original?: string; compressed: string; compressedAt: string }>();
+  async load(): Promise<Map<string, CompressedToolEntry>> {
+    const cache = new Map<string, CompressedToolEntry>();
 
     try {
       // Check if cache file exists
@@ -63,6 +68,12 @@ export class CompressionPersistence {
           original: comp.originalDescription,
           compressed: comp.compressedDescription,
           compressedAt: comp.compressedAt,
+          parameters: comp.parameters && Object.fromEntries(
+            Object.entries(comp.parameters).map(([name, param]) => [
+              name,
+              { original: param.originalDescription, compressed: param.compressedDescription },
+            ])
+          ),
         });
       }
 
@@ -84,7 +95,7 @@ export class CompressionPersistence {
   /**
    * Save compressions to disk
    */
-  async save(cache: Map<string, { original?: string; compressed: string; compressedAt: string }>): Promise<void> {
+  async save(cache: Map<string, CompressedToolEntry>): Promise<void> {
     try {
       // Ensure cache directory exists
       await fs.mkdir(this.cacheDir, { recursive: true });
@@ -98,6 +109,12 @@ export class CompressionPersistence {
           originalDescription: value.original,
           compressedDescription: value.compressed,
           compressedAt: value.compressedAt,
+          parameters: value.parameters && Object.fromEntries(
+            Object.entries(value.parameters).map(([name, param]) => [
+              name,
+              { originalDescription: param.original, compressedDescription: param.compressed },
+            ])
+          ),
         };
       });
 
@@ -0,0 +1,201 @@
+/**
+ * A tool (or prompt) description waiting for compression, as listed by get_uncompressed_tools
+ */
+export interface UncompressedTool {
+  serverName: string;
+  toolName: string;
+  description: string;
+  parameters?: Record<string, string>; // Parameter descriptions keyed by parameter name
+}
+
+/**
+ * Compressed description (and parameter descriptions) produced for one tool
+ */
+export interface CompressedTool {
+  description: string;
+  parameters?: Record<string, string>;
+}
+
+/**
+ * LLM backend that compresses tool descriptions for the background compressor
+ */
+export interface CompressionProvider {
+  readonly name: string;
+  readonly batchSize?: number; // Tools sent per request (default: 1)
+  readonly maxTokens?: number; // Token budget per request; batches are cut to fit
+  /**
+   * Whether requests can be made right now (e.g. the client supports sampling)
+   */
+  isAvailable?(): boolean;
+  /**
+   * Compress a batch of tools; entries are undefined for tools the model left out
+   */
+  compress(tools: UncompressedTool[], signal?: AbortSignal): Promise<Array<CompressedTool | undefined>>;
+}
+
+/**
+ * Default system prompt for compression providers
+ */
+export const DEFAULT_COMPRESSION_PROMPT = [
+  'You compress MCP tool descriptions to save context window space for another LLM.',
+  'You receive a JSON object with a tool description and, optionally, its parameter descriptions.',
+  'Rewrite each description as briefly as possible while keeping what is needed to call the tool correctly:',
+  'purpose, required inputs, important constraints, limits and side effects. Drop examples, filler and repetition.',
+  'Reply with only a JSON object of the form {"description": "...", "parameters": {"<name>": "..."}},',
+  'including every parameter you were given.',
+].join(' ');
+
+/**
+ * Default system prompt for providers that compress several tools per request
+ */
+export const DEFAULT_BATCH_COMPRESSION_PROMPT = [
+  'You compress MCP tool descriptions to save context window space for another LLM.',
+  'You receive a JSON array of tools, each with a tool id, a description and, optionally, parameter descriptions.',
+  'Rewrite each description as briefly as possible while keeping what is needed to call the tool correctly:',
+  'purpose, required inputs, important constraints, limits and side effects. Drop examples, filler and repetition.',
+  'Reply with only a JSON array with one object per tool of the form',
+  '{"tool": "<tool id>", "description": "...", "parameters": {"<name>": "..."}}, including every parameter you were given.',
+].join(' ');
+
+/**
+ * Identifier of a tool in provider requests and replies
+ */
+function toolId(tool: UncompressedTool): string {
+  return `${tool.serverName}/${tool.toolName}`;
+}
+
+function toInput(tool: UncompressedTool): Record<string, unknown> {
+  return {
+    tool: toolId(tool),
+    description: tool.description,
+    ...(tool.parameters && { parameters: tool.parameters }),
+  };
+}
+
+/**
+ * User message sent to the provider for one tool
+ */
+export function buildCompressionInput(tool: UncompressedTool): string {
+  return JSON.stringify(toInput(tool));
+}
+
+/**
+ * User message sent to the provider for a batch of tools
+ */
+export function buildBatchCompressionInput(tools: UncompressedTool[]): string {
+  return JSON.stringify(tools.map(toInput));
+}
+
+/**
+ * Rough token count of a tool's request input (about 4 characters per token)
+ */
+export function estimateTokens(tool: UncompressedTool): number {
+  return Math.ceil(buildCompressionInput(tool).length / 4);
+}
+
+/**
+ * Split tools into batches of at most batchSize tools whose estimated input fits
+ * maxTokens (a tool larger than the budget gets a batch of its own)
+ */
+export function splitIntoBatches(tools: UncompressedTool[], batchSize = 1, maxTokens = Infinity): UncompressedTool[][] {
+  const batches: UncompressedTool[][] = [];
+  let current: UncompressedTool[] = [];
+  let currentTokens = 0;
+
+  for (const tool of tools) {
+    const tokens = estimateTokens(tool);
+    if (current.length > 0 && (current.length >= batchSize || currentTokens + tokens > maxTokens)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(tool);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Remove a Markdown code fence around a reply
+ */
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+}
+
+/**
+ * Validate one compressed entry from a reply. Parameters the tool doesn't have are dropped.
+ */
+function toCompressedTool(value: unknown, tool: UncompressedTool): CompressedTool | undefined {
+  if (value === null || typeof value !== 'object') {
+    return undefined;
+  }
+  const { description, parameters } = value as { description?: unknown; parameters?: unknown };
+  if (typeof description !== 'string' || !description.trim()) {
+    return undefined;
+  }
+
+  const compressedParameters: Record<string, string> = {};
+  if (parameters !== null && typeof parameters === 'object') {
+    for (const [name, param] of Object.entries(parameters)) {
+      if (tool.parameters && Object.hasOwn(tool.parameters, name) && typeof param === 'string' && param.trim()) {
+        compressedParameters[name] = param.trim();
+      }
+    }
+  }
+
+  return {
+    description: description.trim(),
+    ...(Object.keys(compressedParameters).length > 0 && { parameters: compressedParameters }),
+  };
+}
+
+/**
+ * Read the provider's reply for one tool: a JSON object (optionally in a code fence)
+ * or, from models that ignore the format, plain text used as the description
+ */
+export function parseCompressionOutput(text: string, tool: UncompressedTool): CompressedTool {
+  const trimmed = stripCodeFence(text);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    if (trimmed && !trimmed.startsWith('{')) {
+      return { description: trimmed };
+    }
+    throw new Error(`Invalid compression output for ${tool.serverName}:${tool.toolName}`);
+  }
+
+  const compressed = toCompressedTool(parsed, tool);
+  if (!compressed) {
+    throw new Error(`Empty compressed description for ${tool.serverName}:${tool.toolName}`);
+  }
+  return compressed;
+}
+
+/**
+ * Read the provider's reply for a batch: a JSON array (optionally in a code fence)
+ * matched to the tools by tool id. Tools missing from the reply get undefined.
+ */
+export function parseBatchCompressionOutput(
+  text: string,
+  tools: UncompressedTool[]
+): Array<CompressedTool | undefined> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch {
+    parsed = undefined;
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid batch compression output: expected a JSON array');
+  }
+
+  const entries = new Map<unknown, unknown>(
+    parsed.map((entry) => [entry !== null && typeof entry === 'object' ? (entry as { tool?: unknown }).tool : undefined, entry])
+  );
+  return tools.map((tool) => toCompressedTool(entries.get(toolId(tool)), tool));
+}
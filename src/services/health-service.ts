@@ -0,0 +1,67 @@
+import type { Logger } from 'pino';
+import type { MCPClientManager } from '../mcp/client-manager.js';
+import type { HealthResponse, ServerStatus } from '../types/index.js';
+
+/**
+ * Builds HealthResponse reports from the client manager's ping results
+ */
+export class HealthService {
+  private logger: Logger;
+  private clientManager: MCPClientManager;
+
+  constructor(logger: Logger, clientManager: MCPClientManager) {
+    this.logger = logger;
+    this.clientManager = clientManager;
+  }
+
+  /**
+   * Report the health of every backend server.
+   * With refresh, all connected servers are pinged first instead of reporting the last periodic check.
+   */
+  async getHealth(options?: { refresh?: boolean }): Promise<HealthResponse> {
+    if (options?.refresh) {
+      await this.clientManager.checkAllHealth();
+    }
+
+    const servers = this.clientManager.getServerStatuses().map((status) => this.withHealth(status));
+
+    const healthyCount = servers.filter((s) => s.healthy).length;
+    let status: HealthResponse['status'] = 'healthy';
+    if (servers.length > 0 && healthyCount === 0) {
+      status = 'unhealthy';
+    } else if (healthyCount < servers.length) {
+      status = 'degraded';
+    }
+
+    this.logger.debug({ status, healthy: healthyCount, total: servers.length }, 'Computed health');
+
+    return {
+      status,
+      servers,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * A replicated server is healthy while any of its replicas is
+   */
+  private withHealth(status: ServerStatus): ServerStatus {
+    if (!status.replicas) {
+      return { ...status, healthy: this.isHealthy(status) };
+    }
+
+    const replicas = status.replicas.map((replica) => this.withHealth(replica));
+    return { ...status, replicas, healthy: replicas.some((replica) => replica.healthy) };
+  }
+
+  private isHealthy(status: ServerStatus): boolean {
+    if (status.circuit && status.circuit.state !== 'closed') {
+      return false;
+    }
+    // Idle lazy servers are not running but can be started on demand
+    if (status.idle) {
+      return true;
+    }
+    return status.connected && !status.failedPings;
+  }
+}
@@ -0,0 +1,85 @@
+import type { Logger } from 'pino';
+import type { OpenAICompressionConfig } from '../types/index.js';
+import {
+  DEFAULT_COMPRESSION_PROMPT,
+  buildCompressionInput,
+  parseCompressionOutput,
+  type CompressedTool,
+  type CompressionProvider,
+  type UncompressedTool,
+} from './compression-provider.js';
+
+const DEFAULT_REQUEST_TIMEOUT_SECONDS = 60;
+
+/**
+ * Compresses descriptions through an OpenAI-compatible chat completions API
+ * (OpenAI, Ollama, llama.cpp server, vLLM, ...)
+ */
+export class OpenAICompressionProvider implements CompressionProvider {
+  readonly name = 'openai';
+  private logger: Logger;
+  private config: OpenAICompressionConfig;
+
+  constructor(logger: Logger, config: OpenAICompressionConfig) {
+    this.logger = logger;
+    this.config = config;
+  }
+
+  /**
+   * One request per tool (batchSize is not supported by this provider)
+   */
+  async compress(tools: UncompressedTool[], signal?: AbortSignal): Promise<CompressedTool[]> {
+    const results: CompressedTool[] = [];
+    for (const tool of tools) {
+      results.push(await this.compressTool(tool, signal));
+    }
+    return results;
+  }
+
+  private async compressTool(tool: UncompressedTool, signal?: AbortSignal): Promise<CompressedTool> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    // Abort on the caller's signal or after the request timeout
+    const controller = new AbortController();
+    const timeoutMs = (this.config.timeout ?? DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000;
+    const timer = setTimeout(() => controller.abort(new Error(`Compression request timed out after ${timeoutMs}ms`)), timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          temperature: 0,
+          messages: [
+            { role: 'system', content: this.config.prompt ?? DEFAULT_COMPRESSION_PROMPT },
+            { role: 'user', content: buildCompressionInput(tool) },
+          ],
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`Compression request failed with HTTP ${response.status}: ${body.slice(0, 200)}`);
+      }
+
+      const data = (await response.json()) as { choices?: Array<{ message?: { content?: string } }> };
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('Compression response has no message content');
+      }
+
+      this.logger.debug({ serverName: tool.serverName, toolName: tool.toolName }, 'Compressed tool description');
+      return parseCompressionOutput(content, tool);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
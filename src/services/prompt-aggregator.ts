@@ -0,0 +1,147 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { MCPClientManager } from '../mcp/client-manager.js';
+import type { CompressionCache } from './compression-cache.js';
+import { DEFAULT_NAMESPACE_SEPARATOR, matchesIgnorePattern, type ConfigResult } from '../config/loader.js';
+import { splitNamespacedName } from './tool-namespace.js';
+
+/**
+ * Prefix under which prompt descriptions are stored in the compression cache,
+ * keeping them apart from tool descriptions of the same server
+ */
+export const PROMPT_CACHE_PREFIX = 'prompt__';
+
+/**
+ * Aggregates prompts from all connected backends as serverName__promptName (with the configured separator)
+ * and routes prompts/get back to the owning backend
+ */
+export class PromptAggregator {
+  private logger: Logger;
+  private clientManager: MCPClientManager;
+  private compressionCache: CompressionCache;
+  private getConfig: () => ConfigResult;
+
+  constructor(
+    logger: Logger,
+    clientManager: MCPClientManager,
+    compressionCache: CompressionCache,
+    getConfig: () => ConfigResult
+  ) {
+    this.logger = logger;
+    this.clientManager = clientManager;
+    this.compressionCache = compressionCache;
+    this.getConfig = getConfig;
+  }
+
+  /**
+   * List backend prompts per server, without excluded ones
+   */
+  async listBackendPrompts(): Promise<Array<{ name: string; prompts: Prompt[] }>> {
+    const clients = this.clientManager
+      .getConnectedClients()
+      .filter(({ client }) => client.getServerCapabilities()?.prompts);
+
+    const listings = await Promise.all(
+      clients.map(async ({ name, client }) => {
+        try {
+          return { name, prompts: await this.listAll(client) };
+        } catch (error) {
+          this.logger.error({ server: name, error }, 'Failed to list prompts from server');
+          return { name, prompts: [] as Prompt[] };
+        }
+      })
+    );
+
+    return listings.map(({ name, prompts }) => ({
+      name,
+      prompts: prompts.filter((prompt) => !this.isExcluded(`${name}${this.getSeparator()}${prompt.name}`)),
+    }));
+  }
+
+  /**
+   * List namespaced prompts. With compressPrompts enabled, cached compressed descriptions are used.
+   */
+  async listPrompts(): Promise<Prompt[]> {
+    const backendPrompts = await this.listBackendPrompts();
+
+    return backendPrompts.flatMap(({ name, prompts }) =>
+      prompts.map((prompt) => ({
+        ...prompt,
+        name: `${name}${this.getSeparator()}${prompt.name}`,
+        description: this.isCompressionEnabled()
+          ? this.compressionCache.getDescription(name, `${PROMPT_CACHE_PREFIX}${prompt.name}`, prompt.description)
+          : prompt.description,
+      }))
+    );
+  }
+
+  /**
+   * Get a namespaced prompt from its owning backend
+   */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+    const separator = this.getSeparator();
+    const parsed = splitNamespacedName(name, separator);
+    if (!parsed) {
+      throw new Error(`Invalid prompt name format. Expected "serverName${separator}promptName", got "${name}"`);
+    }
+
+    const { serverName, name: promptName } = parsed;
+
+    if (this.isExcluded(name)) {
+      throw new Error(`Prompt '${name}' is excluded by configuration`);
+    }
+
+    const client = this.clientManager.getClient(serverName);
+    if (!client) {
+      throw new Error(`Server '${serverName}' not found or not connected`);
+    }
+
+    return client.getPrompt({ name: promptName, arguments: args });
+  }
+
+  /**
+   * Prompt descriptions in the entry format of the compression tools, keyed by their cache name
+   * (empty unless compressPrompts is enabled)
+   */
+  async listCompressiblePrompts(): Promise<Array<{ serverName: string; toolName: string; description: string }>> {
+    if (!this.isCompressionEnabled()) {
+      return [];
+    }
+
+    const backendPrompts = await this.listBackendPrompts();
+
+    return backendPrompts.flatMap(({ name, prompts }) =>
+      prompts
+        .filter((prompt) => prompt.description)
+        .map((prompt) => ({
+          serverName: name,
+          toolName: `${PROMPT_CACHE_PREFIX}${prompt.name}`,
+          description: prompt.description!,
+        }))
+    );
+  }
+
+  private getSeparator(): string {
+    return this.getConfig()?.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR;
+  }
+
+  private isCompressionEnabled(): boolean {
+    return this.getConfig()?.compressPrompts === true;
+  }
+
+  private isExcluded(name: string): boolean {
+    return matchesIgnorePattern(name, this.getConfig()?.excludePatterns || []);
+  }
+
+  private async listAll(client: Client): Promise<Prompt[]> {
+    const prompts: Prompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.listPrompts(cursor ? { cursor } : undefined);
+      prompts.push(...result.prompts);
+      cursor = result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+}
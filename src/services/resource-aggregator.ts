@@ -0,0 +1,151 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type {
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { MCPClientManager } from '../mcp/client-manager.js';
+import { matchesIgnorePattern, RESOURCE_URI_SEPARATOR } from '../config/loader.js';
+
+/**
+ * Build the namespaced URI under which a backend resource is exposed
+ */
+export function namespaceResourceUri(serverName: string, uri: string): string {
+  return `${serverName}${RESOURCE_URI_SEPARATOR}${uri}`;
+}
+
+/**
+ * Split a namespaced URI into server name and backend URI, or undefined if it has no namespace
+ */
+export function parseResourceUri(uri: string): { serverName: string; uri: string } | undefined {
+  const index = uri.indexOf(RESOURCE_URI_SEPARATOR);
+  if (index <= 0) {
+    return undefined;
+  }
+  return { serverName: uri.slice(0, index), uri: uri.slice(index + 1) };
+}
+
+/**
+ * Aggregates resources and resource templates from all connected backends
+ * under server-namespaced URIs, and routes reads back to the owning backend
+ */
+export class ResourceAggregator {
+  private logger: Logger;
+  private clientManager: MCPClientManager;
+  private getExcludePatterns: () => string[];
+
+  constructor(
+    logger: Logger,
+    clientManager: MCPClientManager,
+    getExcludePatterns: () => string[] = () => []
+  ) {
+    this.logger = logger;
+    this.clientManager = clientManager;
+    this.getExcludePatterns = getExcludePatterns;
+  }
+
+  /**
+   * List the resources of every connected backend that supports them
+   */
+  async listResources(): Promise<Resource[]> {
+    const listings = await this.fanOut('resources', async (client) => {
+      const resources: Resource[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await client.listResources(cursor ? { cursor } : undefined);
+        resources.push(...result.resources);
+        cursor = result.nextCursor;
+      } while (cursor);
+      return resources;
+    });
+
+    return listings.flatMap(({ name, items }) =>
+      items
+        .map((resource) => ({ ...resource, uri: namespaceResourceUri(name, resource.uri) }))
+        .filter((resource) => !this.isExcluded(resource.uri))
+    );
+  }
+
+  /**
+   * List the resource templates of every connected backend that supports them
+   */
+  async listResourceTemplates(): Promise<ResourceTemplate[]> {
+    const listings = await this.fanOut('resource templates', async (client) => {
+      const templates: ResourceTemplate[] = [];
+      let cursor: string | undefined;
+      do {
+        const result = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+        templates.push(...result.resourceTemplates);
+        cursor = result.nextCursor;
+      } while (cursor);
+      return templates;
+    });
+
+    return listings.flatMap(({ name, items }) =>
+      items
+        .map((template) => ({
+          ...template,
+          uriTemplate: namespaceResourceUri(name, template.uriTemplate),
+        }))
+        .filter((template) => !this.isExcluded(template.uriTemplate))
+    );
+  }
+
+  /**
+   * Read a namespaced resource from its owning backend
+   */
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    const parsed = parseResourceUri(uri);
+    if (!parsed) {
+      throw new Error(`Invalid resource URI '${uri}': expected serverName${RESOURCE_URI_SEPARATOR}uri`);
+    }
+
+    if (this.isExcluded(uri)) {
+      throw new Error(`Resource '${uri}' is excluded by configuration`);
+    }
+
+    const client = this.clientManager.getClient(parsed.serverName);
+    if (!client) {
+      throw new Error(`Server '${parsed.serverName}' not found or not connected`);
+    }
+
+    const result = await client.readResource({ uri: parsed.uri });
+
+    return {
+      ...result,
+      contents: result.contents.map((content) => ({
+        ...content,
+        uri: namespaceResourceUri(parsed.serverName, content.uri),
+      })),
+    };
+  }
+
+  private isExcluded(uri: string): boolean {
+    return matchesIgnorePattern(uri, this.getExcludePatterns());
+  }
+
+  /**
+   * Run a listing against every connected backend advertising the resources capability.
+   * A failing backend is logged and left out rather than failing the whole listing.
+   */
+  private async fanOut<T>(
+    what: string,
+    list: (client: Client) => Promise<T[]>
+  ): Promise<Array<{ name: string; items: T[] }>> {
+    const clients = this.clientManager
+      .getConnectedClients()
+      .filter(({ client }) => client.getServerCapabilities()?.resources);
+
+    return Promise.all(
+      clients.map(async ({ name, client }) => {
+        try {
+          return { name, items: await list(client) };
+        } catch (error) {
+          this.logger.error({ server: name, error }, `Failed to list ${what} from server`);
+          return { name, items: [] as T[] };
+        }
+      })
+    );
+  }
+}
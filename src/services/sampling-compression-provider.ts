@@ -0,0 +1,74 @@
+import type { Logger } from 'pino';
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import type { SamplingCompressionConfig } from '../types/index.js';
+import {
+  DEFAULT_BATCH_COMPRESSION_PROMPT,
+  buildBatchCompressionInput,
+  parseBatchCompressionOutput,
+  type CompressedTool,
+  type CompressionProvider,
+  type UncompressedTool,
+} from './compression-provider.js';
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_MAX_TOKENS = 4000;
+const DEFAULT_REQUEST_TIMEOUT_SECONDS = 120;
+
+/**
+ * Sends a sampling/createMessage request to the connected client
+ */
+export type CreateMessage = (
+  params: CreateMessageRequest['params'],
+  options: { signal?: AbortSignal; timeout: number }
+) => Promise<CreateMessageResult>;
+
+/**
+ * Compresses batches of descriptions with the connected client's own model through MCP sampling
+ */
+export class SamplingCompressionProvider implements CompressionProvider {
+  readonly name = 'sampling';
+  readonly batchSize: number;
+  readonly maxTokens: number;
+  private logger: Logger;
+  private config: Omit<SamplingCompressionConfig, 'provider'>;
+  private createMessage: CreateMessage;
+  private supportsSampling: () => boolean;
+
+  constructor(
+    logger: Logger,
+    config: Omit<SamplingCompressionConfig, 'provider'>,
+    createMessage: CreateMessage,
+    supportsSampling: () => boolean
+  ) {
+    this.logger = logger;
+    this.config = config;
+    this.createMessage = createMessage;
+    this.supportsSampling = supportsSampling;
+    this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  isAvailable(): boolean {
+    return this.supportsSampling();
+  }
+
+  async compress(tools: UncompressedTool[], signal?: AbortSignal): Promise<Array<CompressedTool | undefined>> {
+    const result = await this.createMessage(
+      {
+        systemPrompt: this.config.prompt ?? DEFAULT_BATCH_COMPRESSION_PROMPT,
+        messages: [{ role: 'user', content: { type: 'text', text: buildBatchCompressionInput(tools) } }],
+        maxTokens: this.maxTokens,
+        temperature: 0,
+        includeContext: 'none',
+      },
+      { signal, timeout: (this.config.timeout ?? DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000 }
+    );
+
+    if (result.content.type !== 'text') {
+      throw new Error(`Sampling returned ${result.content.type} content instead of text`);
+    }
+
+    this.logger.debug({ count: tools.length, model: result.model }, 'Compressed tool descriptions through sampling');
+    return parseBatchCompressionOutput(result.content.text, tools);
+  }
+}
@@ -0,0 +1,93 @@
+import type { SchemaMinificationLevel } from '../types/index.js';
+
+/**
+ * Keywords that only annotate a schema and never change what it accepts
+ */
+const ANNOTATION_KEYWORDS = ['$comment', '$schema', 'title', 'examples', 'enumNames', 'enumDescriptions'];
+
+/**
+ * Typed enums with more values than this lose their value list in aggressive mode (the type is kept)
+ */
+export const MAX_ENUM_VALUES = 10;
+
+/**
+ * Keywords whose value is a map of names to subschemas
+ */
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'definitions', '$defs', 'dependentSchemas'];
+
+/**
+ * Keywords whose value is a subschema or an array of subschemas
+ */
+const SUBSCHEMA_KEYWORDS = [
+  'items',
+  'prefixItems',
+  'additionalItems',
+  'additionalProperties',
+  'propertyNames',
+  'contains',
+  'not',
+  'if',
+  'then',
+  'else',
+  'anyOf',
+  'oneOf',
+  'allOf',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * `additionalProperties` that allows any extra key, as if it were absent
+ */
+function isUnconstrained(value: unknown): boolean {
+  return value === true || (isObject(value) && Object.keys(value).length === 0);
+}
+
+/**
+ * Minify a JSON schema for advertising to the client. `type`, `required`,
+ * `properties` and `description` are always kept; the input is not modified.
+ */
+export function minifySchema<T extends object>(schema: T, level: SchemaMinificationLevel): T {
+  if (level === 'none') {
+    return schema;
+  }
+  return minifyNode(schema, level) as T;
+}
+
+function minifyNode(node: unknown, level: Exclude<SchemaMinificationLevel, 'none'>): unknown {
+  if (Array.isArray(node)) {
+    return node.map((item) => minifyNode(item, level));
+  }
+  if (!isObject(node)) {
+    return node;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (ANNOTATION_KEYWORDS.includes(key)) {
+      continue;
+    }
+    if (key === 'additionalProperties' && isUnconstrained(value)) {
+      continue;
+    }
+    if (level === 'aggressive' && key === 'default') {
+      continue;
+    }
+    if (level === 'aggressive' && key === 'enum' && 'type' in node && Array.isArray(value) && value.length > MAX_ENUM_VALUES) {
+      continue;
+    }
+
+    if (SCHEMA_MAP_KEYWORDS.includes(key) && isObject(value)) {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, subschema]) => [name, minifyNode(subschema, level)])
+      );
+    } else if (SUBSCHEMA_KEYWORDS.includes(key)) {
+      result[key] = minifyNode(value, level);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,172 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { StringDecoder } from 'string_decoder';
+import type { Stream } from 'stream';
+import type { Logger } from 'pino';
+
+/**
+ * Options for ServerLogStore
+ */
+export interface ServerLogStoreOptions {
+  maxLines?: number; // Lines kept in memory per server (default: 500)
+  logDir?: string; // Directory for mirrored log files (default: ~/.mcp-compression-proxy/logs)
+  maxFileBytes?: number; // Size at which a log file is rotated (default: 1 MB)
+  maxFiles?: number; // Rotated files kept per server, besides the active one (default: 3, minimum: 1)
+}
+
+/**
+ * Per-server log state
+ */
+interface ServerLog {
+  lines: string[];
+  partial: string;
+  mirrorToFile: boolean;
+  writeChain: Promise<void>;
+}
+
+/**
+ * Captures backend stderr output into bounded per-server ring buffers,
+ * optionally mirrored to rotating files
+ */
+export class ServerLogStore {
+  private logger: Logger;
+  private maxLines: number;
+  private logDir: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private logs: Map<string, ServerLog> = new Map();
+
+  constructor(logger: Logger, options: ServerLogStoreOptions = {}) {
+    this.logger = logger;
+    this.maxLines = options.maxLines ?? 500;
+    this.logDir = options.logDir || path.join(os.homedir(), '.mcp-compression-proxy', 'logs');
+    this.maxFileBytes = options.maxFileBytes ?? 1024 * 1024;
+    this.maxFiles = Math.max(options.maxFiles ?? 3, 1);
+  }
+
+  /**
+   * Capture a backend's stderr stream. Lines are kept across restarts of the same server.
+   */
+  attach(serverName: string, stream: Stream, mirrorToFile = false): void {
+    const log = this.getLog(serverName);
+    log.mirrorToFile = mirrorToFile;
+
+    // Keeps multi-byte characters intact across chunk boundaries
+    const decoder = new StringDecoder('utf-8');
+    stream.on('data', (chunk: Buffer | string) => {
+      this.write(serverName, typeof chunk === 'string' ? chunk : decoder.write(chunk));
+    });
+    stream.on('end', () => {
+      if (log.partial) {
+        this.append(serverName, [log.partial]);
+        log.partial = '';
+      }
+    });
+  }
+
+  /**
+   * Add raw output for a server, splitting it into lines
+   */
+  write(serverName: string, chunk: string): void {
+    const log = this.getLog(serverName);
+    const parts = (log.partial + chunk).split(/\r?\n/);
+    log.partial = parts.pop() ?? '';
+    this.append(serverName, parts);
+  }
+
+  /**
+   * Get the last `count` lines captured for a server (oldest first)
+   */
+  getLines(serverName: string, count: number): string[] {
+    const log = this.logs.get(serverName);
+    if (!log) {
+      return [];
+    }
+    const lines = log.partial ? [...log.lines, log.partial] : log.lines;
+    return count > 0 ? lines.slice(-count) : [];
+  }
+
+  hasLogs(serverName: string): boolean {
+    return this.logs.has(serverName);
+  }
+
+  /**
+   * Forget the buffered lines of a server (log files are kept)
+   */
+  clear(serverName: string): void {
+    this.logs.delete(serverName);
+  }
+
+  /**
+   * Wait for pending log file writes (useful for tests and shutdown)
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.logs.values()).map((log) => log.writeChain));
+  }
+
+  getLogFilePath(serverName: string): string {
+    return path.join(this.logDir, `${serverName.replace(/[^\w.-]/g, '_')}.log`);
+  }
+
+  private getLog(serverName: string): ServerLog {
+    let log = this.logs.get(serverName);
+    if (!log) {
+      log = { lines: [], partial: '', mirrorToFile: false, writeChain: Promise.resolve() };
+      this.logs.set(serverName, log);
+    }
+    return log;
+  }
+
+  private append(serverName: string, lines: string[]): void {
+    if (lines.length === 0) {
+      return;
+    }
+
+    const log = this.getLog(serverName);
+    log.lines.push(...lines);
+    if (log.lines.length > this.maxLines) {
+      log.lines.splice(0, log.lines.length - this.maxLines);
+    }
+
+    for (const line of lines) {
+      this.logger.debug({ server: serverName, line }, 'Backend stderr');
+    }
+
+    if (log.mirrorToFile) {
+      const text = lines.map((line) => `${line}\n`).join('');
+      log.writeChain = log.writeChain.then(() => this.writeToFile(serverName, text));
+    }
+  }
+
+  private async writeToFile(serverName: string, text: string): Promise<void> {
+    const file = this.getLogFilePath(serverName);
+
+    try {
+      await fs.mkdir(this.logDir, { recursive: true });
+      await this.rotateIfNeeded(file);
+      await fs.appendFile(file, text, 'utf-8');
+    } catch (error) {
+      this.logger.error({ server: serverName, error, file }, 'Failed to write server log file');
+    }
+  }
+
+  private async rotateIfNeeded(file: string): Promise<void> {
+    let size: number;
+    try {
+      size = (await fs.stat(file)).size;
+    } catch {
+      return; // File does not exist yet
+    }
+    if (size < this.maxFileBytes) {
+      return;
+    }
+
+    // server.log.2 -> server.log.3, server.log.1 -> server.log.2, server.log -> server.log.1
+    await fs.rm(`${file}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => undefined);
+    }
+    await fs.rename(file, `${file}.1`);
+  }
+}
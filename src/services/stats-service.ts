@@ -1,16 +1,33 @@
 import type { Logger } from 'pino';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { MCPClientManager } from '../mcp/client-manager.js';
 import type { CompressionCache } from './compression-cache.js';
 import type { SessionManager } from './session-manager.js';
 import type { ConfigResult } from '../config/loader.js';
-import { matchesIgnorePattern, loadJSONServers } from '../config/loader.js';
+import type { CallQueueStats, CircuitBreakerStats, SchemaMinificationLevel } from '../types/index.js';
+import { DEFAULT_NAMESPACE_SEPARATOR, matchesIgnorePattern, loadJSONServers } from '../config/loader.js';
 
 type DetailLevel = 'summary' | 'full';
 
+type ReplicaStats = {
+  name: string;
+  connected: boolean;
+  restarts: number;
+  lastCrashReason?: string;
+  callQueue?: CallQueueStats;
+  circuit?: CircuitBreakerStats;
+};
+
 type ServerToolStats = {
   name: string;
   connected: boolean;
+  idle?: boolean;
   error?: string;
+  restarts: number;
+  lastCrashReason?: string;
+  callQueue?: CallQueueStats;
+  circuit?: CircuitBreakerStats;
+  replicas?: ReplicaStats[]; // Per-instance supervision, queue and circuit of a replicated server
   toolsTotal: number;
   toolsCompressed: number;
   toolsUncompressed: number;
@@ -26,6 +43,10 @@ export type StatsPayload = {
     serversConfigured: number;
     serversConnected: number;
     serversWithErrors: number;
+    serverRestarts: number;
+    callsQueued: number;
+    callsRejected: number;
+    openCircuits: number;
     toolsTotal: number;
     toolsCompressed: number;
     toolsUncompressed: number;
@@ -51,6 +72,8 @@ export type StatsPayload = {
     sessions?: Array<{ sessionId: string; expandedToolsCount: number }>;
   };
   config: {
+    profile?: string;
+    schemaMinification: SchemaMinificationLevel;
     excludePatterns: string[];
     noCompressPatterns: string[];
   };
@@ -92,11 +115,9 @@ export class StatsService {
 
     const excludePatterns = config.excludePatterns || [];
     const noCompressPatterns = config.noCompressPatterns || [];
+    const separator = config.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR;
 
     const serverStatuses = this.clientManager.getServerStatuses();
-    const connectedClients = this.clientManager.getConnectedClients();
-
-    const connectedClientMap = new Map(connectedClients.map((c) => [c.name, c.client]));
 
     const targetStatuses = serverFilter
       ? serverStatuses.filter((s) => s.name === serverFilter)
@@ -109,29 +130,40 @@ export class StatsService {
     const serverStats: ServerToolStats[] = [];
 
     for (const status of targetStatuses) {
-      if (!status.connected) {
+      const supervision = {
+        restarts: status.restarts ?? 0,
+        lastCrashReason: status.lastCrashReason,
+        callQueue: status.callQueue,
+        circuit: status.circuit,
+        replicas: status.replicas?.map((replica) => ({
+          name: replica.name,
+          connected: replica.connected,
+          restarts: replica.restarts ?? 0,
+          lastCrashReason: replica.lastCrashReason,
+          callQueue: replica.callQueue,
+          circuit: replica.circuit,
+        })),
+      };
+
+      if (status.idle) {
+        // Lazy server that is not running: report from its catalogued tool listing
         serverStats.push({
           name: status.name,
           connected: false,
-          error: status.lastError || 'Not connected',
-          toolsTotal: 0,
-          toolsCompressed: 0,
-          toolsUncompressed: 0,
-          toolsExcluded: 0,
-          coveragePercent: 0,
-          originalChars: 0,
-          compressedChars: 0,
-          estimatedTokensSaved: 0,
+          idle: true,
+          error: status.lastError,
+          ...supervision,
+          ...this.summarizeTools(status.name, this.clientManager.getServerTools(status.name) ?? [], excludePatterns, separator),
         });
         continue;
       }
 
-      const client = connectedClientMap.get(status.name);
-      if (!client) {
+      if (!status.connected) {
         serverStats.push({
           name: status.name,
           connected: false,
-          error: 'Client not available',
+          error: status.lastError || 'Not connected',
+          ...supervision,
           toolsTotal: 0,
           toolsCompressed: 0,
           toolsUncompressed: 0,
@@ -144,68 +176,12 @@ export class StatsService {
         continue;
       }
 
-      try {
-        const result = await client.listTools();
-        const filtered = result.tools.filter(
-          (tool) => !matchesIgnorePattern(`${status.name}__${tool.name}`, excludePatterns)
-        );
-        const excludedCount = result.tools.length - filtered.length;
-
-        let toolsCompressed = 0;
-        let originalChars = 0;
-        let compressedChars = 0;
-
-        for (const tool of filtered) {
-          const original = this.compressionCache.getOriginalDescription(status.name, tool.name) ??
-            tool.description ??
-            '';
-          const hasCompression = this.compressionCache.hasCompressed(status.name, tool.name);
-          const compressed =
-            this.compressionCache.getCompressedDescription(status.name, tool.name) ??
-            (hasCompression ? '' : tool.description ?? '');
-
-          if (hasCompression) {
-            toolsCompressed += 1;
-          }
-
-          originalChars += original.length;
-          compressedChars += compressed.length;
-        }
-
-        const toolsTotal = filtered.length;
-        const toolsUncompressed = Math.max(toolsTotal - toolsCompressed, 0);
-        const estimatedTokensSaved = this.calculateTokensSaved(originalChars, compressedChars);
-
-        serverStats.push({
-          name: status.name,
-          connected: true,
-          toolsTotal,
-          toolsCompressed,
-          toolsUncompressed,
-          toolsExcluded: excludedCount,
-          coveragePercent: this.coverage(toolsCompressed, toolsTotal),
-          originalChars,
-          compressedChars,
-          estimatedTokensSaved,
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        this.logger.warn({ server: status.name, error: message }, 'Failed to list tools for stats');
-
-        serverStats.push({
-          name: status.name,
-          connected: true,
-          error: message,
-          toolsTotal: 0,
-          toolsCompressed: 0,
-          toolsUncompressed: 0,
-          toolsExcluded: 0,
-          coveragePercent: 0,
-          originalChars: 0,
-          compressedChars: 0,
-          estimatedTokensSaved: 0,
-        });
-      }
+      serverStats.push({
+        name: status.name,
+        connected: true,
+        ...supervision,
+        ...this.summarizeTools(status.name, this.clientManager.getServerTools(status.name) ?? [], excludePatterns, separator),
+      });
     }
 
     const aggregateTotalTools = serverStats.reduce((sum, s) => sum + s.toolsTotal, 0);
@@ -217,11 +193,18 @@ export class StatsService {
 
     const sessions = this.sessionManager.getAllSessions();
 
+    // Replicated servers keep call queues and circuit breakers per replica
+    const instanceStatuses = serverStatuses.flatMap((s) => s.replicas ?? [s]);
+
     const payload: StatsPayload = {
       summary: {
         serversConfigured: config.servers?.length || serverStatuses.length,
         serversConnected: serverStatuses.filter((s) => s.connected).length,
-        serversWithErrors: serverStatuses.filter((s) => !s.connected || s.lastError).length,
+        serversWithErrors: serverStatuses.filter((s) => (!s.connected && !s.idle) || s.lastError).length,
+        serverRestarts: serverStatuses.reduce((sum, s) => sum + (s.restarts ?? 0), 0),
+        callsQueued: instanceStatuses.reduce((sum, s) => sum + (s.callQueue?.queuedCalls ?? 0), 0),
+        callsRejected: instanceStatuses.reduce((sum, s) => sum + (s.callQueue?.rejectedCalls ?? 0), 0),
+        openCircuits: instanceStatuses.filter((s) => s.circuit && s.circuit.state !== 'closed').length,
         toolsTotal: aggregateTotalTools,
         toolsCompressed: aggregateCompressed,
         toolsUncompressed: Math.max(aggregateTotalTools - aggregateCompressed, 0),
@@ -259,14 +242,67 @@ export class StatsService {
             : undefined,
       },
       config: {
+        profile: config.profile,
+        schemaMinification: config.schemaMinification ?? 'none',
         excludePatterns,
         noCompressPatterns,
       },
     };
 
+    this.logger.debug({ servers: serverStats.length, detailLevel }, 'Computed tool statistics');
+
     return payload;
   }
 
+  /**
+   * Compute compression coverage for one server's tool listing
+   */
+  private summarizeTools(
+    serverName: string,
+    tools: Tool[],
+    excludePatterns: string[],
+    separator: string
+  ): Omit<ServerToolStats, 'name' | 'connected' | 'restarts'> {
+    const filtered = tools.filter(
+      (tool) => !matchesIgnorePattern(`${serverName}${separator}${tool.name}`, excludePatterns)
+    );
+    const excludedCount = tools.length - filtered.length;
+
+    let toolsCompressed = 0;
+    let originalChars = 0;
+    let compressedChars = 0;
+
+    for (const tool of filtered) {
+      const original = this.compressionCache.getOriginalDescription(serverName, tool.name) ??
+        tool.description ??
+        '';
+      const hasCompression = this.compressionCache.hasCompressed(serverName, tool.name);
+      const compressed =
+        this.compressionCache.getCompressedDescription(serverName, tool.name) ??
+        (hasCompression ? '' : tool.description ?? '');
+
+      if (hasCompression) {
+        toolsCompressed += 1;
+      }
+
+      originalChars += original.length;
+      compressedChars += compressed.length;
+    }
+
+    const toolsTotal = filtered.length;
+
+    return {
+      toolsTotal,
+      toolsCompressed,
+      toolsUncompressed: Math.max(toolsTotal - toolsCompressed, 0),
+      toolsExcluded: excludedCount,
+      coveragePercent: this.coverage(toolsCompressed, toolsTotal),
+      originalChars,
+      compressedChars,
+      estimatedTokensSaved: this.calculateTokensSaved(originalChars, compressedChars),
+    };
+  }
+
   private coverage(done: number, total: number): number {
     if (!total) return 0;
     return Math.round((done / total) * 1000) / 10; // one decimal place
@@ -0,0 +1,112 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+
+/**
+ * Persistent storage format for backend tool listings
+ */
+interface PersistedToolCatalog {
+  version: number;
+  lastUpdated: string;
+  servers: Record<
+    string,
+    {
+      tools: Tool[];
+      updatedAt: string;
+    }
+  >;
+}
+
+/**
+ * Service for persisting backend tool listings to disk, so lazily started
+ * servers can advertise their tools without being spawned
+ */
+export class ToolCatalogPersistence {
+  private logger: Logger;
+  private catalogDir: string;
+  private catalogFile: string;
+  private readonly VERSION = 1;
+
+  constructor(logger: Logger, catalogDir?: string) {
+    this.logger = logger;
+    this.catalogDir = catalogDir || path.join(os.homedir(), '.mcp-compression-proxy');
+    this.catalogFile = path.join(this.catalogDir, 'tool-catalog.json');
+  }
+
+  /**
+   * Load persisted tool listings from disk
+   */
+  async load(): Promise<Map<string, Tool[]>> {
+    const catalog = new Map<string, Tool[]>();
+
+    try {
+      const data = await fs.readFile(this.catalogFile, 'utf-8');
+      const persisted: PersistedToolCatalog = JSON.parse(data);
+
+      if (persisted.version !== this.VERSION) {
+        this.logger.warn(
+          { fileVersion: persisted.version, currentVersion: this.VERSION },
+          'Tool catalog version mismatch, ignoring persisted data'
+        );
+        return catalog;
+      }
+
+      for (const [serverName, entry] of Object.entries(persisted.servers)) {
+        catalog.set(serverName, entry.tools);
+      }
+
+      this.logger.info(
+        { servers: catalog.size, file: this.catalogFile },
+        'Loaded tool catalog from disk'
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.debug('No tool catalog file found, starting with empty catalog');
+      } else {
+        this.logger.error({ error, file: this.catalogFile }, 'Failed to load tool catalog from disk');
+      }
+    }
+
+    return catalog;
+  }
+
+  /**
+   * Save tool listings to disk
+   */
+  async save(catalog: Map<string, Tool[]>): Promise<void> {
+    try {
+      await fs.mkdir(this.catalogDir, { recursive: true });
+
+      const now = new Date().toISOString();
+      const servers: PersistedToolCatalog['servers'] = {};
+      for (const [serverName, tools] of catalog.entries()) {
+        servers[serverName] = { tools, updatedAt: now };
+      }
+
+      const persisted: PersistedToolCatalog = {
+        version: this.VERSION,
+        lastUpdated: now,
+        servers,
+      };
+
+      await fs.writeFile(this.catalogFile, JSON.stringify(persisted, null, 2), 'utf-8');
+
+      this.logger.debug(
+        { servers: catalog.size, file: this.catalogFile },
+        'Saved tool catalog to disk'
+      );
+    } catch (error) {
+      this.logger.error({ error, file: this.catalogFile }, 'Failed to save tool catalog to disk');
+      throw error;
+    }
+  }
+
+  /**
+   * Get the catalog file path (useful for debugging)
+   */
+  getCatalogFilePath(): string {
+    return this.catalogFile;
+  }
+}
@@ -0,0 +1,109 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import { ToolCatalogPersistence } from './tool-catalog-persistence.js';
+
+/**
+ * In-memory index of backend tool listings by server and tool name.
+ * Fed from connect-time listings and tools/list_changed notifications, so request
+ * handlers never have to fan out listTools calls to the backends.
+ * Listings of lazy servers are also persisted so they can be advertised before the server starts.
+ */
+export class ToolCatalog {
+  private logger: Logger;
+  private persistence: ToolCatalogPersistence;
+  private servers: Map<string, Map<string, Tool>> = new Map();
+  private persistedServers: Set<string> = new Set();
+  private loaded = false;
+  private saveChain: Promise<void> = Promise.resolve();
+
+  constructor(logger: Logger, persistence?: ToolCatalogPersistence) {
+    this.logger = logger;
+    this.persistence = persistence || new ToolCatalogPersistence(logger);
+  }
+
+  /**
+   * Load persisted listings from disk (only the first call reads the file)
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    const persisted = await this.persistence.load();
+    for (const [serverName, tools] of persisted.entries()) {
+      // Listings received since startup are newer than the persisted ones
+      if (!this.servers.has(serverName)) {
+        this.servers.set(serverName, this.index(tools));
+      }
+      this.persistedServers.add(serverName);
+    }
+  }
+
+  /**
+   * Replace the listing of a server. With persist, the listing is also saved to disk.
+   */
+  async setServerTools(serverName: string, tools: Tool[], persist = false): Promise<void> {
+    this.servers.set(serverName, this.index(tools));
+    this.logger.debug({ server: serverName, tools: tools.length }, 'Updated tool catalog');
+
+    if (persist) {
+      this.persistedServers.add(serverName);
+      await this.save();
+    }
+  }
+
+  /**
+   * Forget the listing of a server, e.g. when it is removed or its configuration changed.
+   * A persisted listing is also removed from disk.
+   */
+  async removeServer(serverName: string): Promise<void> {
+    this.servers.delete(serverName);
+
+    if (this.persistedServers.delete(serverName)) {
+      this.logger.debug({ server: serverName }, 'Removed server from tool catalog');
+      await this.save();
+    }
+  }
+
+  hasServer(serverName: string): boolean {
+    return this.servers.has(serverName);
+  }
+
+  /**
+   * Get the listing of a server, or undefined if it has never been listed
+   */
+  getServerTools(serverName: string): Tool[] | undefined {
+    const tools = this.servers.get(serverName);
+    return tools ? Array.from(tools.values()) : undefined;
+  }
+
+  getTool(serverName: string, toolName: string): Tool | undefined {
+    return this.servers.get(serverName)?.get(toolName);
+  }
+
+  private index(tools: Tool[]): Map<string, Tool> {
+    return new Map(tools.map((tool) => [tool.name, tool]));
+  }
+
+  /**
+   * Queue a write of the persisted listings. Writes run one after another and each one
+   * snapshots the listings when it starts, so the file always ends up with the latest state.
+   */
+  private save(): Promise<void> {
+    const write = this.saveChain.then(() => this.persistence.save(this.snapshot()));
+    this.saveChain = write.catch(() => undefined);
+    return write;
+  }
+
+  private snapshot(): Map<string, Tool[]> {
+    const persisted = new Map<string, Tool[]>();
+    for (const serverName of this.persistedServers) {
+      const tools = this.getServerTools(serverName);
+      if (tools) {
+        persisted.set(serverName, tools);
+      }
+    }
+    return persisted;
+  }
+}
@@ -0,0 +1,89 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_NAMESPACE_SEPARATOR } from '../config/loader.js';
+
+/**
+ * A backend tool or prompt behind an exposed name
+ */
+export interface NamespacedName {
+  serverName: string;
+  name: string;
+}
+
+/**
+ * Split an exposed name at the first separator. Server names never contain the
+ * separator (enforced at config load), so the rest is the backend name as-is.
+ */
+export function splitNamespacedName(exposedName: string, separator: string): NamespacedName | undefined {
+  const index = exposedName.indexOf(separator);
+  if (index <= 0 || index + separator.length >= exposedName.length) {
+    return undefined;
+  }
+  return { serverName: exposedName.slice(0, index), name: exposedName.slice(index + separator.length) };
+}
+
+/**
+ * Builds exposed tool names (serverName + separator + toolName) and maps them back
+ * to their backend tool through a reverse lookup of the catalogued tools. The lookup
+ * is rebuilt on first use after invalidate(), which callers invoke when tools change.
+ */
+export class ToolNamespace {
+  private separator: string = DEFAULT_NAMESPACE_SEPARATOR;
+  private lookup: Map<string, NamespacedName> = new Map();
+  private stale = true;
+  private listTools: () => Array<{ name: string; tools: Tool[] }>;
+
+  constructor(listTools: () => Array<{ name: string; tools: Tool[] }>) {
+    this.listTools = listTools;
+  }
+
+  setSeparator(separator: string): void {
+    this.separator = separator;
+    this.invalidate();
+  }
+
+  /**
+   * Rebuild the lookup on next use (backend tools were added, removed or changed)
+   */
+  invalidate(): void {
+    this.stale = true;
+  }
+
+  getSeparator(): string {
+    return this.separator;
+  }
+
+  /**
+   * Exposed name of a backend tool
+   */
+  qualify(serverName: string, toolName: string): string {
+    return `${serverName}${this.separator}${toolName}`;
+  }
+
+  /**
+   * Find the backend tool behind an exposed name. Names missing from the lookup
+   * (e.g. tools not catalogued yet) fall back to splitting at the first separator.
+   */
+  resolve(exposedName: string): NamespacedName | undefined {
+    return this.getLookup().get(exposedName) ?? splitNamespacedName(exposedName, this.separator);
+  }
+
+  /**
+   * Whether an exposed name belongs to a listed backend tool
+   */
+  isBackendTool(exposedName: string): boolean {
+    return this.getLookup().has(exposedName);
+  }
+
+  private getLookup(): Map<string, NamespacedName> {
+    if (this.stale) {
+      this.lookup.clear();
+      for (const { name: serverName, tools } of this.listTools()) {
+        for (const tool of tools) {
+          this.lookup.set(this.qualify(serverName, tool.name), { serverName, name: tool.name });
+        }
+      }
+      this.stale = false;
+    }
+    return this.lookup;
+  }
+}
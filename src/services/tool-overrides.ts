@@ -0,0 +1,115 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { ToolOverrideConfig } from '../types/index.js';
+
+/**
+ * A configured alias whose backend tool is currently listed
+ */
+export interface ToolAlias {
+  alias: string;
+  serverName: string;
+  backendTool: Tool;
+  override: ToolOverrideConfig;
+}
+
+/**
+ * Input schema advertised for an alias: fixed arguments are removed, default
+ * arguments stay but are no longer required and carry their default value
+ */
+export function applyPinnedArguments(
+  inputSchema: Tool['inputSchema'],
+  override: ToolOverrideConfig
+): Tool['inputSchema'] {
+  const fixed = Object.keys(override.fixedArguments || {});
+  const defaults = override.defaultArguments || {};
+  const pinned = new Set([...fixed, ...Object.keys(defaults)]);
+
+  const properties: Record<string, object> = {};
+  for (const [key, value] of Object.entries((inputSchema.properties || {}) as Record<string, object>)) {
+    if (fixed.includes(key)) {
+      continue;
+    }
+    properties[key] = key in defaults ? { ...value, default: defaults[key] } : value;
+  }
+
+  const schema: Tool['inputSchema'] = { ...inputSchema, properties };
+  if (inputSchema.required) {
+    schema.required = inputSchema.required.filter((key) => !pinned.has(key));
+  }
+  return schema;
+}
+
+/**
+ * Arguments forwarded for an alias call: defaults fill in what the client
+ * omitted and fixed arguments always win
+ */
+export function mergePinnedArguments(
+  override: ToolOverrideConfig,
+  args: Record<string, unknown>
+): Record<string, unknown> {
+  return { ...override.defaultArguments, ...args, ...override.fixedArguments };
+}
+
+/**
+ * Resolves configured tool aliases (toolOverrides) against the backend tools.
+ * An alias that matches the exposed name of a backend tool is ignored, so it
+ * can't shadow that tool.
+ */
+export class ToolOverrides {
+  private logger: Logger;
+  private getOverrides: () => Record<string, ToolOverrideConfig>;
+  private isBackendToolName: (name: string) => boolean;
+  private reportedShadowing: Set<string> = new Set();
+
+  constructor(
+    logger: Logger,
+    getOverrides: () => Record<string, ToolOverrideConfig>,
+    isBackendToolName: (name: string) => boolean
+  ) {
+    this.logger = logger;
+    this.getOverrides = getOverrides;
+    this.isBackendToolName = isBackendToolName;
+  }
+
+  /**
+   * Override configured for an exposed name, if any
+   */
+  get(alias: string): ToolOverrideConfig | undefined {
+    const overrides = this.getOverrides();
+    if (!Object.prototype.hasOwnProperty.call(overrides, alias) || this.isShadowing(alias)) {
+      return undefined;
+    }
+    return overrides[alias];
+  }
+
+  /**
+   * Aliases whose backend tool is among the given tools; aliases of missing
+   * servers or tools, and aliases shadowing a backend tool, are left out
+   */
+  listAliases(backendTools: Array<{ name: string; tools: Tool[] }>): ToolAlias[] {
+    const aliases: ToolAlias[] = [];
+    for (const [alias, override] of Object.entries(this.getOverrides())) {
+      if (this.isShadowing(alias)) {
+        continue;
+      }
+      const backendTool = backendTools
+        .find(({ name }) => name === override.server)
+        ?.tools.find((tool) => tool.name === override.tool);
+      if (backendTool) {
+        aliases.push({ alias, serverName: override.server, backendTool, override });
+      }
+    }
+    return aliases;
+  }
+
+  private isShadowing(alias: string): boolean {
+    if (!this.isBackendToolName(alias)) {
+      return false;
+    }
+    if (!this.reportedShadowing.has(alias)) {
+      this.reportedShadowing.add(alias);
+      this.logger.warn({ alias }, 'Tool alias matches the name of a backend tool and is ignored');
+    }
+    return true;
+  }
+}
@@ -2,12 +2,23 @@
  * Types for compression and session management
  */
 
+/**
+ * Compressed description of one inputSchema property
+ */
+export interface CompressedParameter {
+  original?: string;
+  compressed: string;
+}
+
+export interface CompressedToolEntry {
+  original?: string;
+  compressed: string;
+  compressedAt: string;
+  parameters?: Record<string, CompressedParameter>; // Keyed by top-level inputSchema property name
+}
+
 export interface CompressedToolCache {
-  [key: string]: {
-    original?: string;
-    compressed: string;
-    compressedAt: string;
-  };
+  [key: string]: CompressedToolEntry;
 }
 
 export interface CompressionStats {
@@ -1,13 +1,144 @@
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 
+/**
+ * Transport used to reach a backend MCP server
+ * - stdio: spawn a local process and talk over stdin/stdout
+ * - http: Streamable HTTP endpoint
+ * - sse: legacy HTTP+SSE endpoint
+ */
+export type MCPTransportType = 'stdio' | 'http' | 'sse';
+
+/**
+ * When a crashed or unreachable backend should be reconnected
+ * - always: keep reconnecting indefinitely
+ * - on-failure: reconnect up to maxRestarts consecutive attempts
+ * - never: leave the server disconnected
+ */
+export type RestartPolicy = 'always' | 'on-failure' | 'never';
+
+/**
+ * When a backend server process is started
+ * - eager: connect at proxy startup
+ * - lazy: advertise tools from the persisted catalog and connect on the first tool call
+ */
+export type StartMode = 'eager' | 'lazy';
+
+/**
+ * How tool calls are spread over the replicas of a replicated server
+ * - round-robin: take turns in order
+ * - least-busy: prefer the replica with the fewest running and queued calls
+ */
+export type LoadBalancingStrategy = 'round-robin' | 'least-busy';
+
+/**
+ * How much of the advertised tool inputSchemas is stripped to save tokens
+ * - none: schemas are forwarded unchanged
+ * - safe: drop annotation keywords ($comment, $schema, title, examples, enum labels) and additionalProperties: true
+ * - aggressive: additionally drop default, additionalProperties and enums longer than 10 values
+ */
+export type SchemaMinificationLevel = 'none' | 'safe' | 'aggressive';
+
+/**
+ * LLM used by the proxy to compress tool descriptions in the background.
+ * - openai: any OpenAI-compatible chat completions endpoint (OpenAI, Ollama, llama.cpp, ...)
+ * - sampling: the connected client's own model through MCP sampling, in batches
+ */
+export type CompressionProviderConfig = OpenAICompressionConfig | SamplingCompressionConfig;
+
+export interface OpenAICompressionConfig {
+  provider: 'openai';
+  baseUrl: string; // API base URL, e.g. "https://api.openai.com/v1" or "http://localhost:11434/v1"
+  model: string;
+  apiKey?: string; // Sent as a Bearer token when set
+  prompt?: string; // Replaces the default system prompt
+  timeout?: number; // Request timeout in seconds (default: 60)
+}
+
+export interface SamplingCompressionConfig {
+  provider: 'sampling';
+  batchSize?: number; // Tools per sampling request (default: 10)
+  maxTokens?: number; // Token budget per sampling request (default: 4000)
+  prompt?: string; // Replaces the default batch system prompt
+  timeout?: number; // Request timeout in seconds (default: 120)
+}
+
+/**
+ * Circuit breaker settings for a backend server. Calls that throw (transport
+ * errors, timeouts) count as failures; tool results with isError do not.
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Failure rate (0-1] over the window that opens the circuit (default: 0.5)
+  minimumCalls?: number; // Calls in the window before the rate is evaluated (default: 5)
+  windowSize?: number; // Number of most recent calls considered (default: 10)
+  resetTimeout?: number; // Seconds the circuit stays open before a half-open probe (default: 30)
+  hideTools?: boolean; // Drop the server's tools from tools/list while the circuit is open (default: false)
+}
+
+/**
+ * Circuit breaker state
+ * - closed: calls flow normally
+ * - open: calls fail fast until resetTimeout elapses
+ * - half-open: a single probe decides whether to close or re-open the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Sampling relay settings for a backend server. Setting this opts the server in:
+ * the proxy advertises sampling to it and relays its sampling/createMessage
+ * requests to the downstream client.
+ */
+export interface SamplingConfig {
+  maxRequestsPerMinute?: number; // Requests relayed per rolling minute; further ones are rejected (default: 10)
+}
+
+/**
+ * Which of the client's workspace roots a backend server sees.
+ * Without this, backends see the client's roots unchanged.
+ */
+export interface RootsConfig {
+  override?: string[]; // Fixed roots (URIs or absolute paths) reported instead of the client's roots
+  allow?: string[]; // Wildcard patterns (case-insensitive) a client root URI must match to be reported
+}
+
+/**
+ * An alias exposing a backend tool under another name, with arguments pinned by the proxy.
+ * Fixed arguments are hidden from the advertised schema and always sent; default arguments
+ * stay visible but become optional and fill in when the client omits them.
+ */
+export interface ToolOverrideConfig {
+  server: string; // Backend server name
+  tool: string; // Backend tool name
+  description?: string; // Replaces the backend tool's description
+  fixedArguments?: Record<string, unknown>;
+  defaultArguments?: Record<string, unknown>;
+}
+
 export interface MCPServerConfig {
   name: string;
-  command: string;
+  type?: MCPTransportType; // Defaults to "stdio"
+  command?: string; // Required for stdio servers
   args?: string[];
   env?: Record<string, string>;
+  url?: string; // Required for http and sse servers
+  headers?: Record<string, string>; // Extra HTTP headers for http and sse servers
   enabled?: boolean;
   timeout?: number; // Timeout in seconds for server initialization
+  restartPolicy?: RestartPolicy; // Defaults to "on-failure"
+  maxRestarts?: number; // Consecutive restart attempts for "on-failure" (default: 5)
+  startMode?: StartMode; // Defaults to "eager"
+  idleTimeout?: number; // Seconds without tool calls before a lazy server is shut down
+  callTimeout?: number; // Timeout in seconds for tool calls (default: 60)
+  toolCallTimeouts?: Record<string, number>; // Per-tool overrides of callTimeout, keyed by backend tool name
+  maxConcurrentCalls?: number; // Calls run at once; further calls wait in a FIFO queue (default: unlimited)
+  maxQueueLength?: number; // Calls allowed to wait when maxConcurrentCalls is reached (default: unlimited)
+  circuitBreaker?: CircuitBreakerConfig; // Circuit breaking is disabled unless set
+  healthCheckInterval?: number; // Seconds between ping health checks (default: 30, 0 disables)
+  logToFile?: boolean; // Mirror captured stderr to ~/.mcp-compression-proxy/logs/<name>.log
+  sampling?: SamplingConfig; // Sampling requests from the server are rejected unless set
+  roots?: RootsConfig; // Override or restrict the roots reported to the server
+  replicas?: number; // Identical instances run behind the server name (default: 1)
+  loadBalancing?: LoadBalancingStrategy; // Routing of tool calls over replicas (default: "round-robin")
 }
 
 export interface MCPClientConnection {
@@ -16,6 +147,10 @@ export interface MCPClientConnection {
   transport: Transport;
   connected: boolean;
   lastError?: string;
+  latencyMs?: number; // Round-trip time of the last successful ping
+  lastPingAt?: string; // Time of the last successful ping
+  failedPings?: number; // Consecutive failed pings
+  lastPingError?: string;
 }
 
 export interface AggregatedToolsResponse {
@@ -48,7 +183,43 @@ export interface ToolCallResponse {
 export interface ServerStatus {
   name: string;
   connected: boolean;
+  idle?: boolean; // Lazy server that is not running; tools are served from the catalog
   lastError?: string;
+  restarts?: number;
+  lastCrashReason?: string;
+  lastCrashAt?: string;
+  healthy?: boolean; // Set in HealthResponse
+  latencyMs?: number;
+  lastPingAt?: string;
+  failedPings?: number;
+  lastPingError?: string;
+  callQueue?: CallQueueStats; // Present when maxConcurrentCalls is configured
+  circuit?: CircuitBreakerStats; // Present when circuitBreaker is configured
+  replicas?: ServerStatus[]; // Per-instance status of a replicated server
+}
+
+/**
+ * Concurrency and queueing statistics for a server with maxConcurrentCalls
+ */
+export interface CallQueueStats {
+  maxConcurrentCalls: number;
+  maxQueueLength?: number;
+  activeCalls: number;
+  queuedCalls: number;
+  rejectedCalls: number;
+  averageWaitMs: number; // Average time admitted calls spent in the queue
+  maxWaitMs: number;
+}
+
+/**
+ * Circuit breaker state and recent call outcomes for a server
+ */
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  recentCalls: number;
+  recentFailures: number;
+  openedAt?: string;
+  lastFailure?: string;
 }
 
 export interface HealthResponse {
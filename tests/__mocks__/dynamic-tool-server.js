@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server whose tool list changes at runtime.
+ * Calling add_tools registers new tools and sends one tools/list_changed per tool.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  {
+    name: 'dynamic-tool-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: { listChanged: true },
+    },
+  }
+);
+
+const extraTools = [];
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'add_tools',
+        description: 'Register new tools on this server',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            names: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Names of the tools to add',
+            },
+          },
+          required: ['names'],
+        },
+      },
+      ...extraTools.map((name) => ({
+        name,
+        description: `Dynamically added tool ${name}`,
+        inputSchema: { type: 'object', properties: {} },
+      })),
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  if (name === 'add_tools') {
+    for (const toolName of args?.names ?? []) {
+      extraTools.push(toolName);
+      await server.sendToolListChanged();
+    }
+    return {
+      content: [{ type: 'text', text: `Added ${extraTools.length} tools` }],
+    };
+  }
+
+  if (extraTools.includes(name)) {
+    return {
+      content: [{ type: 'text', text: `${name} executed` }],
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+    isError: true,
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
+
+main().catch((error) => {
+  console.error('Dynamic tool server failed:', error);
+  process.exit(1);
+});
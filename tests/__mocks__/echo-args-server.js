@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server whose tool returns the arguments it was called with
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  {
+    name: 'echo-args-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'search_issues',
+        description: 'Search issues in a repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            repo: { type: 'string', description: 'Repository as owner/name' },
+            query: { type: 'string', description: 'Search query' },
+            state: { type: 'string', description: 'Issue state' },
+          },
+          required: ['repo', 'query'],
+        },
+      },
+      {
+        name: 'create_issue',
+        description: 'Create an issue',
+        inputSchema: {
+          type: 'object',
+          $comment: 'Generated from the API spec',
+          properties: {
+            title: { type: 'string', title: 'Title', examples: ['Crash on start'] },
+            state: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+          },
+          required: ['title'],
+          additionalProperties: false,
+        },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(request.params.arguments ?? {}) }],
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Echo args test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+import { createServer, type IncomingMessage, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Local MCP server reachable over Streamable HTTP (/mcp) and SSE (/sse + /messages)
+ */
+export interface HttpTestServer {
+  baseUrl: string;
+  /** Headers of every HTTP request received, in order */
+  receivedHeaders: IncomingMessage['headers'][];
+  close(): Promise<void>;
+}
+
+function createToolServer(): Server {
+  const server = new Server(
+    { name: 'http-test-server', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: 'echo',
+        description: 'Echo the provided message back to the caller',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            message: { type: 'string', description: 'Message to echo' },
+          },
+          required: ['message'],
+        },
+      },
+    ],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [
+      {
+        type: 'text',
+        text: `echo: ${(request.params.arguments as { message?: string })?.message ?? ''}`,
+      },
+    ],
+  }));
+
+  return server;
+}
+
+export async function startHttpTestServer(): Promise<HttpTestServer> {
+  const receivedHeaders: IncomingMessage['headers'][] = [];
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const httpServer: HttpServer = createServer(async (req, res) => {
+    receivedHeaders.push(req.headers);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/mcp') {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+      if (!transport) {
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            streamableTransports.set(id, transport!);
+          },
+        });
+        await createToolServer().connect(transport);
+      }
+
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => sseTransports.delete(transport.sessionId));
+      await createToolServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const transport = sseTransports.get(url.searchParams.get('sessionId') ?? '');
+      if (!transport) {
+        res.writeHead(404).end('Unknown session');
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    receivedHeaders,
+    close: async () => {
+      await Promise.allSettled([
+        ...Array.from(streamableTransports.values()).map((t) => t.close()),
+        ...Array.from(sseTransports.values()).map((t) => t.close()),
+      ]);
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { createServer, type IncomingMessage, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Chat completions request received by the stub
+ */
+export interface ChatCompletionRequest {
+  headers: IncomingMessage['headers'];
+  body: {
+    model: string;
+    messages: Array<{ role: string; content: string }>;
+  };
+}
+
+/**
+ * Local OpenAI-compatible chat completions server (POST /v1/chat/completions)
+ */
+export interface OpenAIStubServer {
+  baseUrl: string;
+  /** Requests received, in order */
+  requests: ChatCompletionRequest[];
+  /** Reply content for a request; defaults to a JSON compression of the tool in the user message */
+  reply: (request: ChatCompletionRequest) => string;
+  /** HTTP status to answer with (default 200) */
+  status: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Default reply: "Short <toolName>" for the description and "short" for every parameter
+ */
+function defaultReply(request: ChatCompletionRequest): string {
+  const input = JSON.parse(request.body.messages.find((m) => m.role === 'user')!.content);
+  const toolName = String(input.tool).split('/')[1];
+  const parameters = Object.fromEntries(Object.keys(input.parameters ?? {}).map((name) => [name, 'short']));
+  return JSON.stringify({ description: `Short ${toolName}`, parameters });
+}
+
+export async function startOpenAIStubServer(): Promise<OpenAIStubServer> {
+  const stub: Omit<OpenAIStubServer, 'baseUrl' | 'close'> = {
+    requests: [],
+    reply: defaultReply,
+    status: 200,
+  };
+
+  const httpServer: HttpServer = createServer(async (req, res) => {
+    if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let data = '';
+    for await (const chunk of req) {
+      data += chunk;
+    }
+    const request: ChatCompletionRequest = { headers: req.headers, body: JSON.parse(data) };
+    stub.requests.push(request);
+
+    if (stub.status !== 200) {
+      res.writeHead(stub.status, { 'Content-Type': 'application/json' }).end('{"error":"stub failure"}');
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+      JSON.stringify({
+        id: `chatcmpl-${stub.requests.length}`,
+        object: 'chat.completion',
+        model: request.body.model,
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: stub.reply(request) } }],
+      })
+    );
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return Object.assign(stub, {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    close: async () => {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  });
+}
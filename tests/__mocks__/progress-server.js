@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server whose tool reports progress and emits log messages while it runs
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  {
+    name: 'progress-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+      logging: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'long_task',
+        description: 'Run a task in steps, reporting progress',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const progressToken = request.params._meta?.progressToken;
+  const steps = 3;
+
+  await server.sendLoggingMessage({ level: 'info', logger: 'worker', data: 'starting long_task' });
+  for (let step = 1; step <= steps; step++) {
+    if (progressToken !== undefined) {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: step, total: steps, message: `step ${step}` },
+      });
+    }
+    await sleep(20);
+  }
+  await server.sendLoggingMessage({ level: 'warning', data: 'long_task finished slowly' });
+
+  return {
+    content: [{ type: 'text', text: 'done' }],
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Progress test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
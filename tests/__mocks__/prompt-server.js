@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server exposing prompts alongside one tool
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const prompts = [
+  {
+    name: 'review',
+    description:
+      'Review the staged changes for correctness, style and missing tests, and summarise the findings as a list of actionable comments',
+    arguments: [{ name: 'focus', description: 'Area to focus on', required: false }],
+  },
+  {
+    name: 'internal_debug',
+    description: 'Internal debugging prompt',
+  },
+];
+
+const server = new Server(
+  {
+    name: 'prompt-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+      prompts: {},
+      completions: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'status',
+        description: 'Show the working tree status',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async () => {
+  return {
+    content: [{ type: 'text', text: 'clean' }],
+  };
+});
+
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return { prompts };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  if (!prompts.some((p) => p.name === name)) {
+    throw new Error(`Prompt not found: ${name}`);
+  }
+  return {
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: `Run ${name} focusing on ${args?.focus ?? 'everything'}` },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CompleteRequestSchema, async (request) => {
+  const { ref, argument } = request.params;
+  const areas = ref.type === 'ref/prompt' && ref.name === 'review' ? ['docs', 'tests', 'types'] : [];
+  const values = areas.filter((area) => area.startsWith(argument.value));
+  return { completion: { values, total: values.length } };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Prompt test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
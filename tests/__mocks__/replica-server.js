@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server identifying its process, for running several replicas side by side
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  {
+    name: 'replica-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'whoami',
+        description: 'Return the process id of this replica',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'shutdown',
+        description: 'Exit this replica shortly after answering',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  if (request.params.name === 'shutdown') {
+    setTimeout(() => process.exit(1), 50);
+  }
+  return {
+    content: [{ type: 'text', text: String(process.pid) }],
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Replica test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server exposing resources and a resource template alongside one tool
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const files = {
+  'file:///guide.md': '# Guide\n\nHow to use the docs server.',
+  'file:///private/secrets.txt': 'do not share',
+};
+
+const server = new Server(
+  {
+    name: 'resource-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+      resources: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'search',
+        description: 'Search the docs',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async () => {
+  return {
+    content: [{ type: 'text', text: 'No results' }],
+  };
+});
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return {
+    resources: Object.keys(files).map((uri) => ({
+      uri,
+      name: uri.split('/').pop(),
+      mimeType: 'text/plain',
+    })),
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: 'file:///{path}',
+        name: 'file',
+        description: 'Any file in the docs tree',
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  if (!(uri in files)) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+  return {
+    contents: [{ uri, mimeType: 'text/plain', text: files[uri] }],
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Resource test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server whose summarize tool asks the client to sample an LLM
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  {
+    name: 'sampling-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'summarize',
+        description: 'Summarise text using the client LLM',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: { type: 'string', description: 'Text to summarise' },
+          },
+          required: ['text'],
+        },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const text = request.params.arguments?.text ?? '';
+
+  try {
+    const result = await server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: `Summarise: ${text}` } }],
+      maxTokens: 50,
+    });
+    return {
+      content: [{ type: 'text', text: `Summary: ${result.content.text}` }],
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Sampling failed: ${error.message}` }],
+      isError: true,
+    };
+  }
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Sampling test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server with a tool that takes a configurable time to finish.
+ * Cancelled calls are appended to the file named by CANCEL_LOG, if set.
+ */
+
+import { appendFileSync } from 'fs';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const server = new Server(
+  {
+    name: 'slow-tool-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'sleep',
+        description: 'Wait for the given number of milliseconds before responding',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ms: {
+              type: 'number',
+              description: 'Milliseconds to wait',
+            },
+          },
+          required: ['ms'],
+        },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const { name, arguments: args } = request.params;
+
+  if (name !== 'sleep') {
+    return {
+      content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+      isError: true,
+    };
+  }
+
+  const ms = Number(args?.ms ?? 0);
+
+  await new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    extra.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      if (process.env.CANCEL_LOG) {
+        appendFileSync(process.env.CANCEL_LOG, `${ms}\n`);
+      }
+      resolve();
+    });
+  });
+
+  return {
+    content: [{ type: 'text', text: `Slept ${ms}ms` }],
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
+
+main().catch((error) => {
+  console.error('Slow tool server failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+/**
+ * Mock MCP server that asks the client for its roots and for user input
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  RootsListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+let rootsChanges = 0;
+
+const server = new Server(
+  {
+    name: 'workspace-test-server',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+  rootsChanges++;
+});
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: 'list_roots',
+        description: 'Report the workspace roots this server can see',
+        inputSchema: { type: 'object', properties: {} },
+      },
+      {
+        name: 'ask_branch',
+        description: 'Ask the user which branch to use',
+        inputSchema: { type: 'object', properties: {} },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name } = request.params;
+
+  try {
+    if (name === 'list_roots') {
+      const { roots } = await server.listRoots();
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ roots: roots.map((r) => r.uri), rootsChanges }) }],
+      };
+    }
+
+    if (name === 'ask_branch') {
+      const result = await server.elicitInput({
+        message: 'Which branch?',
+        requestedSchema: {
+          type: 'object',
+          properties: { branch: { type: 'string' } },
+          required: ['branch'],
+        },
+      });
+      return {
+        content: [{ type: 'text', text: `${result.action}: ${result.content?.branch ?? ''}` }],
+      };
+    }
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Failed: ${error.message}` }],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+    isError: true,
+  };
+});
+
+async function main() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('Workspace test server running on stdio');
+}
+
+main().catch((error) => {
+  console.error('Server error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * Integration test for background compression
+ * With a compression provider configured, the proxy compresses uncached tools
+ * through a (stub) OpenAI-compatible API at startup and lists them compressed
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, readFileSync } from 'fs';
+import { startOpenAIStubServer, type OpenAIStubServer } from '../__mocks__/openai-stub-server.js';
+
+describe('Background compression', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  let stub: OpenAIStubServer;
+  let toolListChanged: Promise<void>;
+
+  beforeAll(async () => {
+    stub = await startOpenAIStubServer();
+
+    testHome = join(tmpdir(), `mcp-auto-compression-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'github',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/echo-args-server.js')],
+          },
+        ],
+        compression: {
+          provider: 'openai',
+          baseUrl: stub.baseUrl,
+          model: 'test-model',
+          apiKey: '${AUTO_COMPRESSION_TEST_KEY}',
+        },
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+        AUTO_COMPRESSION_TEST_KEY: 'test-key',
+      },
+    });
+
+    mcpClient = new Client({ name: 'auto-compression-test-client', version: '1.0.0' }, { capabilities: {} });
+    toolListChanged = new Promise((resolve) => {
+      mcpClient.setNotificationHandler(ToolListChangedNotificationSchema, async () => resolve());
+    });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    await stub.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('compresses uncached tools and notifies the client', async () => {
+    await toolListChanged;
+
+    const { tools } = await mcpClient.listTools();
+    const searchIssues = tools.find((t) => t.name === 'github__search_issues')!;
+
+    expect(searchIssues.description).toBe('Short search_issues');
+    expect((searchIssues.inputSchema.properties as any).repo.description).toBe('short');
+    expect(tools.find((t) => t.name === 'github__create_issue')!.description).toBe('Short create_issue');
+    expect(stub.requests.map((r) => r.headers.authorization)).toEqual(['Bearer test-key', 'Bearer test-key']);
+    expect(stub.requests[0].body.model).toBe('test-model');
+  }, 10000);
+
+  it('persists the compressions to the cache file', () => {
+    const cacheFile = JSON.parse(readFileSync(join(testHome, '.mcp-compression-proxy', 'cache.json'), 'utf-8'));
+
+    expect(cacheFile.compressions.map((c: { toolName: string }) => c.toolName).sort()).toEqual([
+      'create_issue',
+      'search_issues',
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Integration test for tool call timeouts and cancellation
+ * Calls a slow backend tool through the proxy and verifies the backend sees the cancellation
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
+
+describe('Tool call timeouts and cancellation', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  let cancelLog: string;
+
+  const cancelledCalls = () =>
+    existsSync(cancelLog) ? readFileSync(cancelLog, 'utf-8').trim().split('\n') : [];
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 5000) => {
+    const start = Date.now();
+    while (!predicate()) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-call-timeout-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+    cancelLog = join(testHome, 'cancelled.log');
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'slow',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/slow-tool-server.js')],
+            env: { CANCEL_LOG: cancelLog },
+            callTimeout: 1,
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'call-timeout-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('returns tool results that finish within the timeout', async () => {
+    const result = await mcpClient.callTool({ name: 'slow__sleep', arguments: { ms: 10 } });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as any[])[0].text).toBe('Slept 10ms');
+  });
+
+  it('returns a timeout error and cancels the backend call', async () => {
+    const result = await mcpClient.callTool({ name: 'slow__sleep', arguments: { ms: 5000 } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any[])[0].text).toBe(
+      "Error calling tool: Tool call 'sleep' on server 'slow' timed out after 1000ms"
+    );
+    await waitFor(() => cancelledCalls().includes('5000'));
+  }, 10000);
+
+  it('forwards client cancellation to the backend', async () => {
+    const controller = new AbortController();
+    const call = mcpClient.callTool({ name: 'slow__sleep', arguments: { ms: 800 } }, undefined, {
+      signal: controller.signal,
+    });
+
+    setTimeout(() => controller.abort(), 200);
+
+    await expect(call).rejects.toThrow();
+    await waitFor(() => cancelledCalls().includes('800'));
+  }, 10000);
+});
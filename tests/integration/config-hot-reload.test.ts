@@ -0,0 +1,107 @@
+/**
+ * Integration test for hot reloading servers.json
+ * Edits the user config while the proxy is running and verifies backends are
+ * added and removed without a restart
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Config hot reload', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  let configPath: string;
+  let listChangedCount = 0;
+
+  const mockServer = (name: string) => ({
+    name,
+    command: 'node',
+    args: [join(process.cwd(), 'tests/__mocks__/single-tool-server.js')],
+  });
+
+  const writeConfig = (servers: ReturnType<typeof mockServer>[]) => {
+    writeFileSync(configPath, JSON.stringify({ mcpServers: servers }, null, 2));
+  };
+
+  const backendToolNames = async () => {
+    const { tools } = await mcpClient.listTools();
+    return tools
+      .map((t) => t.name)
+      .filter((name) => !name.startsWith('mcp-compression-proxy__'))
+      .sort();
+  };
+
+  const waitForListChanged = async (previousCount: number, timeoutMs = 10000) => {
+    const start = Date.now();
+    while (listChangedCount <= previousCount) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Timed out waiting for tools/list_changed');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-hot-reload-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    configPath = join(configDir, 'servers.json');
+    mkdirSync(configDir, { recursive: true });
+
+    writeConfig([mockServer('first')]);
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'hot-reload-test-client', version: '1.0.0' }, { capabilities: {} });
+    mcpClient.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      listChangedCount++;
+    });
+
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('advertises list_changed support', () => {
+    expect(mcpClient.getServerCapabilities()?.tools?.listChanged).toBe(true);
+  });
+
+  it('connects servers added to the config', async () => {
+    expect(await backendToolNames()).toEqual(['first__single_tool']);
+
+    const before = listChangedCount;
+    writeConfig([mockServer('first'), mockServer('second')]);
+    await waitForListChanged(before);
+
+    expect(await backendToolNames()).toEqual(['first__single_tool', 'second__single_tool']);
+  }, 15000);
+
+  it('disconnects servers removed from the config', async () => {
+    const before = listChangedCount;
+    writeConfig([mockServer('second')]);
+    await waitForListChanged(before);
+
+    expect(await backendToolNames()).toEqual(['second__single_tool']);
+  }, 15000);
+
+  it('keeps the current config when the file becomes invalid', async () => {
+    writeFileSync(configPath, '{ not valid json');
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    expect(await backendToolNames()).toEqual(['second__single_tool']);
+  }, 15000);
+});
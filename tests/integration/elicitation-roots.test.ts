@@ -0,0 +1,96 @@
+/**
+ * Integration test for relaying elicitation requests and workspace roots
+ * between the downstream client and backend servers
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ElicitRequestSchema, ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Elicitation and roots relay', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  let clientRoots = [{ uri: 'file:///work/app', name: 'app' }, { uri: 'file:///work/private' }];
+
+  const listRoots = async (serverName: string) => {
+    const result = await mcpClient.callTool({ name: `${serverName}__list_roots`, arguments: {} });
+    return JSON.parse((result.content as any[])[0].text) as { roots: string[]; rootsChanges: number };
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-elicitation-roots-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    const workspaceServer = join(process.cwd(), 'tests/__mocks__/workspace-server.js');
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          { name: 'full', command: 'node', args: [workspaceServer] },
+          { name: 'limited', command: 'node', args: [workspaceServer], roots: { allow: ['file:///work/app*'] } },
+          { name: 'pinned', command: 'node', args: [workspaceServer], roots: { override: ['/srv/data'] } },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client(
+      { name: 'elicitation-roots-test-client', version: '1.0.0' },
+      { capabilities: { elicitation: {}, roots: { listChanged: true } } }
+    );
+    mcpClient.setRequestHandler(ElicitRequestSchema, async (request) => {
+      expect(request.params.message).toBe('Which branch?');
+      return { action: 'accept', content: { branch: 'main' } };
+    });
+    mcpClient.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: clientRoots }));
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('relays elicitation requests to the client and returns the answer', async () => {
+    const result = await mcpClient.callTool({ name: 'full__ask_branch', arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as any[])[0].text).toBe('accept: main');
+  });
+
+  it('reports the client roots to backends, restricted or overridden per server', async () => {
+    expect((await listRoots('full')).roots).toEqual(['file:///work/app', 'file:///work/private']);
+    expect((await listRoots('limited')).roots).toEqual(['file:///work/app']);
+    expect((await listRoots('pinned')).roots).toEqual(['file:///srv/data']);
+  });
+
+  it('fans out roots/list_changed and serves the new roots', async () => {
+    const before = (await listRoots('full')).rootsChanges;
+    clientRoots = [{ uri: 'file:///work/other', name: 'other' }];
+
+    await mcpClient.sendRootsListChanged();
+
+    const start = Date.now();
+    let after = await listRoots('full');
+    while (after.rootsChanges === before && Date.now() - start < 5000) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      after = await listRoots('full');
+    }
+
+    expect(after.rootsChanges).toBe(before + 1);
+    expect(after.roots).toEqual(['file:///work/other']);
+  });
+});
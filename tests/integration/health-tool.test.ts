@@ -0,0 +1,92 @@
+/**
+ * Integration test for the health management tool
+ * Runs the proxy with one working and one broken backend and checks the HealthResponse
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import type { HealthResponse } from '../../src/types/index.js';
+
+describe('Health management tool', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  const getHealth = async (args: Record<string, unknown> = {}): Promise<HealthResponse> => {
+    const result = await mcpClient.callTool({ name: 'mcp-compression-proxy__health', arguments: args });
+    expect(result.isError).toBeFalsy();
+    return JSON.parse((result.content as any[])[0].text);
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-health-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'working',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/single-tool-server.js')],
+          },
+          {
+            name: 'broken',
+            command: 'node',
+            args: [join(testHome, 'does-not-exist.js')],
+            restartPolicy: 'never',
+            timeout: 5,
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'health-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 20000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('lists the health tool', async () => {
+    const { tools } = await mcpClient.listTools();
+    expect(tools.map((t) => t.name)).toContain('mcp-compression-proxy__health');
+  });
+
+  it('reports degraded status with per-server health', async () => {
+    const health = await getHealth();
+
+    expect(health.status).toBe('degraded');
+    expect(health.servers.find((s) => s.name === 'working')).toEqual(
+      expect.objectContaining({ connected: true, healthy: true })
+    );
+    expect(health.servers.find((s) => s.name === 'broken')).toEqual(
+      expect.objectContaining({ connected: false, healthy: false })
+    );
+  });
+
+  it('pings servers on refresh and reports round-trip times', async () => {
+    const health = await getHealth({ refresh: true });
+    const working = health.servers.find((s) => s.name === 'working');
+
+    expect(working?.latencyMs).toEqual(expect.any(Number));
+    expect(new Date(working!.lastPingAt!).getTime()).toBeLessThanOrEqual(Date.now());
+    expect(working?.failedPings).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Integration test for Streamable HTTP and SSE backend servers
+ * Connects MCPClientManager to a local HTTP MCP server over both transports
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import type { Logger } from 'pino';
+import { MCPClientManager } from '../../src/mcp/client-manager.js';
+import { getMockLogger } from '../__mocks__/mcp-mocks.js';
+import { startHttpTestServer, type HttpTestServer } from '../__mocks__/http-test-server.js';
+
+describe('HTTP and SSE backend transports', () => {
+  let httpServer: HttpTestServer;
+  let clientManager: MCPClientManager;
+
+  beforeAll(async () => {
+    httpServer = await startHttpTestServer();
+  });
+
+  afterEach(async () => {
+    await clientManager?.disconnectAll();
+  });
+
+  afterAll(async () => {
+    await httpServer.close();
+  });
+
+  it('connects to a Streamable HTTP server and calls its tools', async () => {
+    clientManager = new MCPClientManager(getMockLogger() as unknown as Logger);
+
+    await clientManager.initializeServers([
+      {
+        name: 'remote',
+        type: 'http',
+        url: `${httpServer.baseUrl}/mcp`,
+        headers: { 'X-Api-Key': 'http-secret' },
+      },
+    ]);
+
+    const client = clientManager.getClient('remote');
+    expect(client).toBeDefined();
+
+    const { tools } = await client!.listTools();
+    expect(tools.map((t) => t.name)).toEqual(['echo']);
+
+    const result = await client!.callTool({ name: 'echo', arguments: { message: 'hi' } });
+    expect((result.content as any[])[0].text).toBe('echo: hi');
+
+    expect(httpServer.receivedHeaders.some((h) => h['x-api-key'] === 'http-secret')).toBe(true);
+    expect(clientManager.getServerStatuses()).toEqual([
+      expect.objectContaining({ name: 'remote', connected: true }),
+    ]);
+  });
+
+  it('connects to an SSE server and calls its tools', async () => {
+    clientManager = new MCPClientManager(getMockLogger() as unknown as Logger);
+
+    await clientManager.initializeServers([
+      {
+        name: 'legacy',
+        type: 'sse',
+        url: `${httpServer.baseUrl}/sse`,
+        headers: { 'X-Api-Key': 'sse-secret' },
+      },
+    ]);
+
+    const client = clientManager.getClient('legacy');
+    expect(client).toBeDefined();
+
+    const result = await client!.callTool({ name: 'echo', arguments: { message: 'sse' } });
+    expect((result.content as any[])[0].text).toBe('echo: sse');
+
+    expect(httpServer.receivedHeaders.some((h) => h['x-api-key'] === 'sse-secret')).toBe(true);
+  });
+
+  it('reports unreachable HTTP servers as disconnected without blocking others', async () => {
+    clientManager = new MCPClientManager(getMockLogger() as unknown as Logger);
+
+    await clientManager.initializeServers([
+      { name: 'remote', type: 'http', url: `${httpServer.baseUrl}/mcp` },
+      { name: 'missing', type: 'http', url: `${httpServer.baseUrl}/does-not-exist`, timeout: 2 },
+    ]);
+
+    expect(clientManager.getClient('remote')).toBeDefined();
+    expect(clientManager.getClient('missing')).toBeUndefined();
+
+    const missing = clientManager.getServerStatuses().find((s) => s.name === 'missing');
+    expect(missing?.connected).toBe(false);
+    expect(missing?.lastError).toBeDefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Integration test for exposed tool names
+ * Backend tool names containing the separator stay callable, and a custom
+ * separator is used for both listing and routing
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe.each([
+  { separator: undefined, exposedName: 'git__repo__status' },
+  { separator: '.', exposedName: 'git.repo__status' },
+])('Namespace separator $separator', ({ separator, exposedName }) => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-separator-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'git',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/separator-tool-server.js')],
+          },
+        ],
+        namespaceSeparator: separator,
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'separator-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('lists the tool under its exposed name', async () => {
+    const { tools } = await mcpClient.listTools();
+
+    expect(tools.map((t) => t.name)).toContain(exposedName);
+  });
+
+  it('routes the call to the backend tool', async () => {
+    const result = await mcpClient.callTool({ name: exposedName, arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as any[])[0].text).toBe('called repo__status');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Integration test for compressed parameter descriptions
+ * Parameter descriptions go through the get_uncompressed_tools / cache_compressed_tools
+ * workflow, are served compressed in tools/list and restored when the tool is expanded
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Parameter description compression', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  const getProperties = async () => {
+    const { tools } = await mcpClient.listTools();
+    return tools.find((t) => t.name === 'github__search_issues')!.inputSchema.properties as Record<
+      string,
+      { description?: string }
+    >;
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-parameter-compression-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'github',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/echo-args-server.js')],
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'parameter-compression-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('returns parameter descriptions with uncompressed tools', async () => {
+    const result = await mcpClient.callTool({
+      name: 'mcp-compression-proxy__get_uncompressed_tools',
+      arguments: {},
+    });
+    const text = (result.content as any[])[0].text;
+
+    expect(text).toContain('"repo": "Repository as owner/name"');
+    expect(text).toContain('"query": "Search query"');
+  });
+
+  it('lists cached parameter descriptions compressed', async () => {
+    await mcpClient.callTool({
+      name: 'mcp-compression-proxy__cache_compressed_tools',
+      arguments: {
+        descriptions: [
+          {
+            serverName: 'github',
+            toolName: 'search_issues',
+            description: 'Search issues',
+            parameters: { repo: 'owner/name' },
+          },
+        ],
+      },
+    });
+
+    const properties = await getProperties();
+
+    expect(properties.repo.description).toBe('owner/name');
+    expect(properties.query.description).toBe('Search query');
+  });
+
+  it('restores full parameter descriptions when the tool is expanded', async () => {
+    await mcpClient.callTool({ name: 'mcp-compression-proxy__create_session', arguments: {} });
+    await mcpClient.callTool({
+      name: 'mcp-compression-proxy__expand_tool',
+      arguments: { serverName: 'github', toolName: 'search_issues' },
+    });
+
+    const properties = await getProperties();
+
+    expect(properties.repo.description).toBe('Repository as owner/name');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Integration test for server profiles
+ * Launches the proxy with --profile and checks that only the profile's servers
+ * are started and that stats reports the active profile
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Server profiles', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-profiles-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    const mockServer = join(process.cwd(), 'tests/__mocks__/single-tool-server.js');
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          { name: 'coding', command: 'node', args: [mockServer] },
+          { name: 'ops', command: 'node', args: [mockServer] },
+        ],
+        profiles: {
+          oncall: { servers: ['ops'], noCompressTools: ['ops__*'] },
+        },
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js'), '--profile', 'oncall'],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'profiles-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('only starts the servers of the selected profile', async () => {
+    const { tools } = await mcpClient.listTools();
+    const backendTools = tools.filter((t) => !t.name.startsWith('mcp-compression-proxy__'));
+
+    expect(backendTools.map((t) => t.name)).toEqual(['ops__single_tool']);
+  });
+
+  it('reports the active profile in stats', async () => {
+    const result = await mcpClient.callTool({ name: 'mcp-compression-proxy__stats', arguments: {} });
+    const stats = JSON.parse((result.content as any[])[0].text);
+
+    expect(stats.config).toEqual(
+      expect.objectContaining({ profile: 'oncall', noCompressPatterns: ['ops__*'] })
+    );
+    expect(stats.summary.serversConfigured).toBe(1);
+  });
+});
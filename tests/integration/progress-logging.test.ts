@@ -0,0 +1,94 @@
+/**
+ * Integration test for progress and logging relay
+ * Progress notifications of a backend tool call reach the caller's progress token,
+ * and backend log messages are forwarded with the server name as logger
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { LoggingMessageNotificationSchema, type LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Progress and logging relay', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  const logMessages: LoggingMessageNotification['params'][] = [];
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-progress-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'jobs',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/progress-server.js')],
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'progress-test-client', version: '1.0.0' }, { capabilities: {} });
+    mcpClient.setNotificationHandler(LoggingMessageNotificationSchema, async (notification) => {
+      logMessages.push(notification.params);
+    });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    logMessages.length = 0;
+  });
+
+  it('relays progress notifications of a backend tool call', async () => {
+    const progress: unknown[] = [];
+
+    const result = await mcpClient.callTool({ name: 'jobs__long_task', arguments: {} }, undefined, {
+      onprogress: (p) => progress.push(p),
+    });
+
+    expect((result.content as any[])[0].text).toBe('done');
+    expect(progress).toEqual([
+      { progress: 1, total: 3, message: 'step 1' },
+      { progress: 2, total: 3, message: 'step 2' },
+      { progress: 3, total: 3, message: 'step 3' },
+    ]);
+  });
+
+  it('forwards backend log messages prefixed with the server name', async () => {
+    await mcpClient.callTool({ name: 'jobs__long_task', arguments: {} });
+
+    expect(logMessages).toEqual([
+      { level: 'info', logger: 'jobs/worker', data: 'starting long_task' },
+      { level: 'warning', logger: 'jobs', data: 'long_task finished slowly' },
+    ]);
+  });
+
+  it('honors the log level set by the client', async () => {
+    await mcpClient.setLoggingLevel('warning');
+
+    await mcpClient.callTool({ name: 'jobs__long_task', arguments: {} });
+
+    expect(logMessages).toEqual([{ level: 'warning', logger: 'jobs', data: 'long_task finished slowly' }]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Integration test for prompt aggregation
+ * Backend prompts are listed as serverName__promptName, routed to their backend,
+ * and (with compressPrompts) take part in the description compression workflow
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Prompt aggregation', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-prompts-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'git',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/prompt-server.js')],
+          },
+        ],
+        excludeTools: ['git__internal_*'],
+        compressPrompts: true,
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'prompts-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('lists namespaced prompts without excluded ones', async () => {
+    const { prompts } = await mcpClient.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual(['git__review']);
+    expect(prompts[0].arguments).toEqual([expect.objectContaining({ name: 'focus' })]);
+  });
+
+  it('gets a prompt from its backend', async () => {
+    const result = await mcpClient.getPrompt({ name: 'git__review', arguments: { focus: 'tests' } });
+
+    expect(result.messages[0].content).toEqual({ type: 'text', text: 'Run review focusing on tests' });
+  });
+
+  it('completes prompt arguments on the owning backend', async () => {
+    const result = await mcpClient.complete({
+      ref: { type: 'ref/prompt', name: 'git__review' },
+      argument: { name: 'focus', value: 't' },
+    });
+
+    expect(result.completion.values).toEqual(['tests', 'types']);
+  });
+
+  it('rejects excluded prompts', async () => {
+    await expect(mcpClient.getPrompt({ name: 'git__internal_debug' })).rejects.toThrow(
+      /excluded by configuration/
+    );
+  });
+
+  it('compresses prompt descriptions through the compression workflow', async () => {
+    const uncompressed = await mcpClient.callTool({
+      name: 'mcp-compression-proxy__get_uncompressed_tools',
+      arguments: {},
+    });
+    expect((uncompressed.content as any[])[0].text).toContain('"toolName": "prompt__review"');
+
+    await mcpClient.callTool({
+      name: 'mcp-compression-proxy__cache_compressed_tools',
+      arguments: {
+        descriptions: [{ serverName: 'git', toolName: 'prompt__review', description: 'Review staged changes' }],
+      },
+    });
+
+    const { prompts } = await mcpClient.listPrompts();
+    expect(prompts[0].description).toBe('Review staged changes');
+  });
+});
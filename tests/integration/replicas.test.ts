@@ -0,0 +1,116 @@
+/**
+ * Integration test for replicated servers
+ * Runs a backend as two replicas behind one server name and checks that calls
+ * are spread over them and fail over when a replica goes away
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync, readFileSync } from 'fs';
+import type { HealthResponse } from '../../src/types/index.js';
+
+describe('Replicated servers', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  const callText = async (name: string): Promise<string> => {
+    const result = await mcpClient.callTool({ name, arguments: {} });
+    expect(result.isError).toBeFalsy();
+    return (result.content as any[])[0].text;
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-replicas-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'search',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/replica-server.js')],
+            replicas: 2,
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'replicas-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('lists the tools of the replicated server once', async () => {
+    const { tools } = await mcpClient.listTools();
+
+    expect(tools.filter((t) => t.name.startsWith('search__')).map((t) => t.name)).toEqual([
+      'search__whoami',
+      'search__shutdown',
+    ]);
+  });
+
+  it('spreads calls over the replicas', async () => {
+    const pids = [await callText('search__whoami'), await callText('search__whoami')];
+
+    expect(new Set(pids).size).toBe(2);
+  });
+
+  it('reports the replicas under the server in health', async () => {
+    const result = await mcpClient.callTool({ name: 'mcp-compression-proxy__health', arguments: {} });
+    const health: HealthResponse = JSON.parse((result.content as any[])[0].text);
+
+    const search = health.servers.find((s) => s.name === 'search');
+    expect(search).toEqual(expect.objectContaining({ connected: true, healthy: true }));
+    expect(search!.replicas!.map((r) => r.name)).toEqual(['search#1', 'search#2']);
+  });
+
+  it('keeps the original description when caching a compressed one', async () => {
+    const cached = await mcpClient.callTool({
+      name: 'mcp-compression-proxy__cache_compressed_tools',
+      arguments: { descriptions: [{ serverName: 'search', toolName: 'whoami', description: 'Replica pid' }] },
+    });
+    expect(cached.isError).toBeFalsy();
+
+    const cacheFile = JSON.parse(readFileSync(join(testHome, '.mcp-compression-proxy', 'cache.json'), 'utf-8'));
+
+    expect(cacheFile.compressions).toEqual([
+      expect.objectContaining({
+        serverName: 'search',
+        toolName: 'whoami',
+        originalDescription: 'Return the process id of this replica',
+      }),
+    ]);
+  });
+
+  it('fails over to the remaining replica when one exits', async () => {
+    const exitedPid = await callText('search__shutdown');
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const pids = [
+      await callText('search__whoami'),
+      await callText('search__whoami'),
+      await callText('search__whoami'),
+    ];
+
+    expect(pids).not.toContain(exitedPid);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Integration test for resource aggregation
+ * Backend resources are listed under serverName+uri and reads are routed back to the backend
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Resource aggregation', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-resources-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'docs',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/resource-server.js')],
+          },
+          {
+            name: 'plain',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/single-tool-server.js')],
+          },
+        ],
+        excludeTools: ['docs+file:///private/*'],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'resources-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('advertises the resources capability', () => {
+    expect(mcpClient.getServerCapabilities()?.resources).toBeDefined();
+  });
+
+  it('lists namespaced resources without excluded ones', async () => {
+    const { resources } = await mcpClient.listResources();
+
+    expect(resources.map((r) => r.uri)).toEqual(['docs+file:///guide.md']);
+  });
+
+  it('lists namespaced resource templates', async () => {
+    const { resourceTemplates } = await mcpClient.listResourceTemplates();
+
+    expect(resourceTemplates).toEqual([
+      expect.objectContaining({ uriTemplate: 'docs+file:///{path}', name: 'file' }),
+    ]);
+  });
+
+  it('reads a resource from its backend', async () => {
+    const result = await mcpClient.readResource({ uri: 'docs+file:///guide.md' });
+
+    expect(result.contents).toEqual([
+      expect.objectContaining({ uri: 'docs+file:///guide.md', text: expect.stringContaining('# Guide') }),
+    ]);
+  });
+
+  it('returns no completions for backends without the completions capability', async () => {
+    const result = await mcpClient.complete({
+      ref: { type: 'ref/resource', uri: 'docs+file:///{path}' },
+      argument: { name: 'path', value: 'gu' },
+    });
+
+    expect(result.completion.values).toEqual([]);
+  });
+
+  it('rejects reads of excluded or unknown resources', async () => {
+    await expect(mcpClient.readResource({ uri: 'docs+file:///private/secrets.txt' })).rejects.toThrow(
+      /excluded by configuration/
+    );
+    await expect(mcpClient.readResource({ uri: 'missing+file:///guide.md' })).rejects.toThrow(
+      /Server 'missing' not found or not connected/
+    );
+  });
+});
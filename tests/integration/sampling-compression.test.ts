@@ -0,0 +1,85 @@
+/**
+ * Integration test for compression through MCP sampling
+ * auto_compress sends uncached tools in batches to the connected client's model
+ * and lists them compressed afterwards
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Sampling compression', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  const batches: Array<Array<{ tool: string }>> = [];
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-sampling-compression-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'github',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/echo-args-server.js')],
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'sampling-compression-test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    mcpClient.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      const content = request.params.messages[0].content as { text: string };
+      const batch = JSON.parse(content.text) as Array<{ tool: string }>;
+      batches.push(batch);
+      return {
+        role: 'assistant',
+        model: 'client-model',
+        content: {
+          type: 'text',
+          text: JSON.stringify(batch.map(({ tool }) => ({ tool, description: `Short ${tool.split('/')[1]}` }))),
+        },
+      };
+    });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('compresses uncached tools through the client on demand', async () => {
+    const result = await mcpClient.callTool({ name: 'mcp-compression-proxy__auto_compress', arguments: {} });
+    const text = (result.content as any[])[0].text;
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('Compressed 2 tool descriptions with the sampling provider.');
+    expect(text).toContain('All tools have been compressed!');
+    expect(batches.map((batch) => batch.map(({ tool }) => tool))).toEqual([['github/search_issues', 'github/create_issue']]);
+  }, 10000);
+
+  it('lists the compressed descriptions', async () => {
+    const { tools } = await mcpClient.listTools();
+
+    expect(tools.find((t) => t.name === 'github__search_issues')!.description).toBe('Short search_issues');
+    expect(tools.find((t) => t.name === 'github__create_issue')!.description).toBe('Short create_issue');
+  });
+});
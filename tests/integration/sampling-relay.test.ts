@@ -0,0 +1,81 @@
+/**
+ * Integration test for relaying backend sampling requests to the downstream client
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Sampling relay', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  const sampledPrompts: string[] = [];
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-sampling-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    const samplingServer = join(process.cwd(), 'tests/__mocks__/sampling-server.js');
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          { name: 'agent', command: 'node', args: [samplingServer], sampling: { maxRequestsPerMinute: 2 } },
+          { name: 'untrusted', command: 'node', args: [samplingServer] },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'sampling-test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    mcpClient.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      const content = request.params.messages[0].content;
+      sampledPrompts.push(content.type === 'text' ? content.text : '');
+      return { role: 'assistant', model: 'test-model', content: { type: 'text', text: 'short version' } };
+    });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('relays sampling requests from opted-in servers to the client', async () => {
+    const result = await mcpClient.callTool({ name: 'agent__summarize', arguments: { text: 'long text' } });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as any[])[0].text).toBe('Summary: short version');
+    expect(sampledPrompts).toEqual(['Summarise: long text']);
+  });
+
+  it('does not offer sampling to servers that did not opt in', async () => {
+    const result = await mcpClient.callTool({ name: 'untrusted__summarize', arguments: { text: 'x' } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any[])[0].text).toMatch(/^Sampling failed: .*Method not found/);
+    expect(sampledPrompts).toHaveLength(1);
+  });
+
+  it('rejects sampling requests over the rate limit', async () => {
+    await mcpClient.callTool({ name: 'agent__summarize', arguments: { text: 'second' } });
+    const result = await mcpClient.callTool({ name: 'agent__summarize', arguments: { text: 'third' } });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any[])[0].text).toContain("Sampling rate limit exceeded for server 'agent'");
+    expect(sampledPrompts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Integration test for schema minification
+ * Advertised inputSchemas are minified according to schemaMinification,
+ * and expanding a tool restores its full schema
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Schema minification', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  const getSchema = async () => {
+    const { tools } = await mcpClient.listTools();
+    return tools.find((t) => t.name === 'github__create_issue')!.inputSchema;
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-schema-minification-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'github',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/echo-args-server.js')],
+          },
+        ],
+        schemaMinification: 'aggressive',
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'schema-minification-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('advertises minified schemas with types and required fields intact', async () => {
+    expect(await getSchema()).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        state: { type: 'string', enum: ['open', 'closed'] },
+      },
+      required: ['title'],
+    });
+  });
+
+  it('restores the full schema when the tool is expanded', async () => {
+    await mcpClient.callTool({ name: 'mcp-compression-proxy__create_session', arguments: {} });
+    await mcpClient.callTool({
+      name: 'mcp-compression-proxy__expand_tool',
+      arguments: { serverName: 'github', toolName: 'create_issue' },
+    });
+
+    const schema = await getSchema();
+
+    expect(schema.properties).toEqual({
+      title: { type: 'string', title: 'Title', examples: ['Crash on start'] },
+      state: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+    });
+    expect(schema.required).toEqual(['title']);
+  });
+});
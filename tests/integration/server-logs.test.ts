@@ -0,0 +1,99 @@
+/**
+ * Integration test for backend stderr capture
+ * Runs the proxy with a backend that fails at startup and reads its stderr back
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
+
+describe('Backend server logs', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  const getLogs = async (serverName: string, lines?: number) => {
+    const result = await mcpClient.callTool({
+      name: 'mcp-compression-proxy__server_logs',
+      arguments: { serverName, lines },
+    });
+    return { isError: result.isError, text: (result.content as any[])[0].text as string };
+  };
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-server-logs-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'crashing',
+            command: 'node',
+            args: ['-e', "console.error('Loading config'); console.error('FATAL: API_KEY is not set'); process.exit(1)"],
+            restartPolicy: 'never',
+            logToFile: true,
+          },
+          {
+            name: 'quiet',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/single-tool-server.js')],
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'server-logs-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 20000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('returns the stderr of a backend that failed to start', async () => {
+    const { isError, text } = await getLogs('crashing');
+
+    expect(isError).toBeFalsy();
+    expect(text).toContain('Loading config');
+    expect(text).toContain('FATAL: API_KEY is not set');
+  });
+
+  it('limits the output to the requested number of lines', async () => {
+    const { text } = await getLogs('crashing', 1);
+
+    expect(text).toBe("Last 1 stderr lines from 'crashing':\n\nFATAL: API_KEY is not set");
+  });
+
+  it('mirrors stderr to a log file when logToFile is set', () => {
+    const logFile = join(testHome, '.mcp-compression-proxy', 'logs', 'crashing.log');
+    expect(readFileSync(logFile, 'utf-8')).toContain('FATAL: API_KEY is not set');
+  });
+
+  it('reports servers without stderr output', async () => {
+    const { text } = await getLogs('quiet');
+
+    expect(text).toBe("No stderr output captured for server 'quiet'");
+  });
+
+  it('rejects unknown servers', async () => {
+    const { isError, text } = await getLogs('missing');
+
+    expect(isError).toBe(true);
+    expect(text).toBe("Error: Server 'missing' is not configured");
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Integration test for forwarding backend tools/list_changed notifications
+ * A backend adds tools at runtime; the proxy should tell its client once and list the new tools
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Backend tools/list_changed forwarding', () => {
+  let mcpClient: Client;
+  let testHome: string;
+  let listChangedCount = 0;
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-list-changed-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'dynamic',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/dynamic-tool-server.js')],
+          },
+        ],
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'list-changed-test-client', version: '1.0.0' }, { capabilities: {} });
+    mcpClient.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      listChangedCount++;
+    });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('re-emits a single list_changed for a burst of backend notifications', async () => {
+    const before = (await mcpClient.listTools()).tools.map((t) => t.name);
+    expect(before).not.toContain('dynamic__extra_one');
+
+    await mcpClient.callTool({
+      name: 'dynamic__add_tools',
+      arguments: { names: ['extra_one', 'extra_two', 'extra_three'] },
+    });
+
+    const start = Date.now();
+    while (listChangedCount === 0 && Date.now() - start < 5000) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    // Give any extra (non-debounced) notifications time to arrive
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(listChangedCount).toBe(1);
+
+    const after = (await mcpClient.listTools()).tools.map((t) => t.name);
+    expect(after).toEqual(
+      expect.arrayContaining(['dynamic__extra_one', 'dynamic__extra_two', 'dynamic__extra_three'])
+    );
+  }, 10000);
+});
@@ -0,0 +1,113 @@
+/**
+ * Integration test for tool aliases (toolOverrides)
+ * Aliases are listed without their fixed arguments and forward calls to the
+ * backend tool with fixed and default arguments merged in
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+
+describe('Tool overrides', () => {
+  let mcpClient: Client;
+  let testHome: string;
+
+  beforeAll(async () => {
+    testHome = join(tmpdir(), `mcp-overrides-test-${Date.now()}`);
+    const configDir = join(testHome, '.mcp-compression-proxy');
+    mkdirSync(configDir, { recursive: true });
+
+    writeFileSync(
+      join(configDir, 'servers.json'),
+      JSON.stringify({
+        mcpServers: [
+          {
+            name: 'github',
+            command: 'node',
+            args: [join(process.cwd(), 'tests/__mocks__/echo-args-server.js')],
+          },
+        ],
+        excludeTools: ['github__search_issues'],
+        toolOverrides: {
+          app_issues: {
+            server: 'github',
+            tool: 'search_issues',
+            description: 'Search issues of our-org/app',
+            fixedArguments: { repo: 'our-org/app' },
+            defaultArguments: { state: 'open' },
+          },
+          github__create_issue: {
+            server: 'github',
+            tool: 'search_issues',
+            fixedArguments: { repo: 'shadow/repo' },
+          },
+        },
+      })
+    );
+
+    const transport = new StdioClientTransport({
+      command: 'node',
+      args: [join(process.cwd(), 'dist/index.js')],
+      env: {
+        ...process.env,
+        HOME: testHome,
+        LOG_LEVEL: 'error',
+      },
+    });
+
+    mcpClient = new Client({ name: 'overrides-test-client', version: '1.0.0' }, { capabilities: {} });
+    await mcpClient.connect(transport);
+  }, 15000);
+
+  afterAll(async () => {
+    await mcpClient?.close();
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('lists the alias without its fixed arguments', async () => {
+    const { tools } = await mcpClient.listTools();
+    const names = tools.map((t) => t.name);
+    const alias = tools.find((t) => t.name === 'app_issues');
+
+    expect(names).not.toContain('github__search_issues');
+    expect(alias?.description).toBe('Search issues of our-org/app');
+    expect(Object.keys(alias?.inputSchema.properties ?? {})).toEqual(['query', 'state']);
+    expect(alias?.inputSchema.required).toEqual(['query']);
+  });
+
+  it('merges fixed and default arguments into the backend call', async () => {
+    const result = await mcpClient.callTool({ name: 'app_issues', arguments: { query: 'crash' } });
+
+    expect(JSON.parse((result.content as any[])[0].text)).toEqual({
+      repo: 'our-org/app',
+      query: 'crash',
+      state: 'open',
+    });
+  });
+
+  it('lets the client override default but not fixed arguments', async () => {
+    const result = await mcpClient.callTool({
+      name: 'app_issues',
+      arguments: { query: 'crash', state: 'closed', repo: 'other/repo' },
+    });
+
+    expect(JSON.parse((result.content as any[])[0].text)).toEqual({
+      repo: 'our-org/app',
+      query: 'crash',
+      state: 'closed',
+    });
+  });
+
+  it('ignores aliases that shadow a backend tool', async () => {
+    const { tools } = await mcpClient.listTools();
+    const names = tools.map((t) => t.name);
+
+    expect(names.filter((name) => name === 'github__create_issue')).toHaveLength(1);
+
+    const result = await mcpClient.callTool({ name: 'github__create_issue', arguments: { title: 'Crash' } });
+
+    expect(JSON.parse((result.content as any[])[0].text)).toEqual({ title: 'Crash' });
+  });
+});
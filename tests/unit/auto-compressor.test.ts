@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import { AutoCompressor } from '../../src/services/auto-compressor.js';
+import { CompressionCache } from '../../src/services/compression-cache.js';
+import type { CompressionPersistence } from '../../src/services/compression-persistence.js';
+import type { CompressionProvider, UncompressedTool } from '../../src/services/compression-provider.js';
+
+describe('AutoCompressor', () => {
+  let mockLogger: Logger;
+  let cache: CompressionCache;
+  let tools: UncompressedTool[];
+  let provider: CompressionProvider & { compress: jest.Mock<CompressionProvider['compress']> };
+  let onCompressed: jest.Mock<() => void>;
+  let compressor: AutoCompressor;
+
+  const listUncompressed = async () => tools.filter((t) => !cache.hasCompressed(t.serverName, t.toolName));
+
+  beforeEach(() => {
+    mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+    const persistence = { save: jest.fn(async () => undefined) } as unknown as CompressionPersistence;
+    cache = new CompressionCache(mockLogger, persistence);
+
+    tools = [
+      { serverName: 'github', toolName: 'search_issues', description: 'Search issues', parameters: { repo: 'Repository' } },
+      { serverName: 'github', toolName: 'create_issue', description: 'Create an issue' },
+    ];
+    provider = {
+      name: 'test',
+      compress: jest.fn(async (batch: UncompressedTool[]) =>
+        batch.map((tool) => ({
+          description: `Short ${tool.toolName}`,
+          ...(tool.parameters && { parameters: { repo: 'repo' } }),
+        }))
+      ),
+    };
+    onCompressed = jest.fn();
+    compressor = new AutoCompressor(mockLogger, provider, cache, listUncompressed, onCompressed);
+  });
+
+  it('compresses uncached tools with their parameters and reports the change', async () => {
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(cache.getCompressedDescription('github', 'search_issues')).toBe('Short search_issues');
+    expect(cache.getOriginalDescription('github', 'search_issues')).toBe('Search issues');
+    expect(cache.getCompressedParameters('github', 'search_issues')).toEqual({
+      repo: { original: 'Repository', compressed: 'repo' },
+    });
+    expect(cache.getCompressedDescription('github', 'create_issue')).toBe('Short create_issue');
+    expect(onCompressed).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when every tool is cached', async () => {
+    cache.saveCompressed('github', 'search_issues', 'cached');
+    cache.saveCompressed('github', 'create_issue', 'cached');
+
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(provider.compress).not.toHaveBeenCalled();
+    expect(onCompressed).not.toHaveBeenCalled();
+  });
+
+  it('runs once more when triggered during a run', async () => {
+    compressor.schedule();
+    tools.push({ serverName: 'db', toolName: 'query', description: 'Run a query' });
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(cache.hasCompressed('db', 'query')).toBe(true);
+    expect(provider.compress).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips failing tools and stops after repeated failures', async () => {
+    provider.compress.mockRejectedValueOnce(new Error('bad output'));
+
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(cache.hasCompressed('github', 'search_issues')).toBe(false);
+    expect(cache.hasCompressed('github', 'create_issue')).toBe(true);
+
+    tools = Array.from({ length: 5 }, (_, i) => ({ serverName: 'db', toolName: `tool${i}`, description: 'd' }));
+    provider.compress.mockClear();
+    provider.compress.mockRejectedValue(new Error('connection refused'));
+
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(provider.compress).toHaveBeenCalledTimes(3);
+  });
+
+  it('sends batches within the provider batch size and token budget', async () => {
+    tools = Array.from({ length: 5 }, (_, i) => ({ serverName: 'db', toolName: `tool${i}`, description: 'd' }));
+    Object.assign(provider, { batchSize: 2, maxTokens: 1000 });
+
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(provider.compress.mock.calls.map(([batch]) => batch.length)).toEqual([2, 2, 1]);
+  });
+
+  it('counts tools left out of a batch reply as failed', async () => {
+    provider.compress.mockImplementationOnce(async (batch) => [undefined, { description: `Short ${batch[1].toolName}` }]);
+
+    const result = await compressor.compressNow();
+
+    expect(result).toEqual({ compressed: 1, failed: 1 });
+    expect(cache.hasCompressed('github', 'create_issue')).toBe(true);
+  });
+
+  it('does not call unavailable providers', async () => {
+    provider.isAvailable = () => false;
+
+    expect(compressor.isAvailable()).toBe(false);
+    expect(await compressor.compressNow()).toEqual({ compressed: 0, failed: 0 });
+    expect(provider.compress).not.toHaveBeenCalled();
+  });
+
+  it('ignores triggers after stop', async () => {
+    compressor.stop();
+    compressor.schedule();
+    await compressor.whenIdle();
+
+    expect(provider.compress).not.toHaveBeenCalled();
+  });
+});
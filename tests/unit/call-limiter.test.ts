@@ -0,0 +1,141 @@
+import { describe, it, expect } from '@jest/globals';
+import { CallLimiter } from '../../src/mcp/call-limiter.js';
+
+/**
+ * A task that finishes when the test resolves it
+ */
+function deferredTask<T>(value: T) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  let started = false;
+
+  return {
+    run: async () => {
+      started = true;
+      await done;
+      return value;
+    },
+    finish,
+    get started() {
+      return started;
+    },
+  };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('CallLimiter', () => {
+  it('should run calls immediately while under the limit', async () => {
+    const limiter = new CallLimiter('db', 2);
+
+    await expect(limiter.run(async () => 'a')).resolves.toBe('a');
+    expect(limiter.getStats()).toEqual(
+      expect.objectContaining({ activeCalls: 0, queuedCalls: 0, averageWaitMs: 0 })
+    );
+  });
+
+  it('should queue calls over the limit and start them in FIFO order', async () => {
+    const limiter = new CallLimiter('db', 1);
+    const first = deferredTask('first');
+    const second = deferredTask('second');
+    const third = deferredTask('third');
+
+    const results = [
+      limiter.run(first.run),
+      limiter.run(second.run),
+      limiter.run(third.run),
+    ];
+    await flush();
+
+    expect(first.started).toBe(true);
+    expect(second.started).toBe(false);
+    expect(limiter.getStats()).toEqual(expect.objectContaining({ activeCalls: 1, queuedCalls: 2 }));
+
+    first.finish();
+    await flush();
+    expect(second.started).toBe(true);
+    expect(third.started).toBe(false);
+
+    second.finish();
+    await flush();
+    third.finish();
+
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'third']);
+    expect(limiter.getStats()).toEqual(expect.objectContaining({ activeCalls: 0, queuedCalls: 0 }));
+  });
+
+  it('should release the slot when a call fails', async () => {
+    const limiter = new CallLimiter('db', 1);
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should reject calls when the queue is full', async () => {
+    const limiter = new CallLimiter('db', 1, 1);
+    const running = deferredTask('running');
+    const queued = deferredTask('queued');
+
+    const first = limiter.run(running.run);
+    const second = limiter.run(queued.run);
+
+    await expect(limiter.run(async () => 'rejected')).rejects.toThrow(
+      "Server 'db' is busy: 1 calls in progress and 1 queued (maxQueueLength: 1)"
+    );
+    expect(limiter.getStats().rejectedCalls).toBe(1);
+
+    running.finish();
+    await flush();
+    queued.finish();
+    await expect(Promise.all([first, second])).resolves.toEqual(['running', 'queued']);
+  });
+
+  it('should remove a queued call when its signal is aborted', async () => {
+    const limiter = new CallLimiter('db', 1);
+    const running = deferredTask('running');
+    const controller = new AbortController();
+
+    const first = limiter.run(running.run);
+    const cancelled = limiter.run(async () => 'never', controller.signal);
+
+    controller.abort(new Error('cancelled'));
+    await expect(cancelled).rejects.toThrow('cancelled');
+    expect(limiter.getStats().queuedCalls).toBe(0);
+
+    running.finish();
+    await expect(first).resolves.toBe('running');
+  });
+
+  it('should reject queued calls on clear', async () => {
+    const limiter = new CallLimiter('db', 1);
+    const running = deferredTask('running');
+
+    const first = limiter.run(running.run);
+    const queued = limiter.run(async () => 'never');
+
+    limiter.clear("Server 'db' was removed");
+    await expect(queued).rejects.toThrow("Server 'db' was removed");
+
+    running.finish();
+    await expect(first).resolves.toBe('running');
+  });
+
+  it('should track queue wait times', async () => {
+    const limiter = new CallLimiter('db', 1);
+    const running = deferredTask('running');
+
+    const first = limiter.run(running.run);
+    const second = limiter.run(async () => 'second');
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    running.finish();
+    await Promise.all([first, second]);
+
+    const stats = limiter.getStats();
+    expect(stats.maxWaitMs).toBeGreaterThanOrEqual(25);
+    expect(stats.averageWaitMs).toBeGreaterThan(0);
+    expect(stats.averageWaitMs).toBeLessThanOrEqual(stats.maxWaitMs);
+  });
+});
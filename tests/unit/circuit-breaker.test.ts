@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { CircuitBreaker } from '../../src/mcp/circuit-breaker.js';
+import type { CircuitState } from '../../src/types/index.js';
+
+describe('CircuitBreaker', () => {
+  let transitions: Array<[CircuitState, CircuitState]>;
+  let breaker: CircuitBreaker;
+
+  const succeed = () => breaker.run(async () => 'ok');
+  const fail = (message = 'backend down') =>
+    breaker.run(async () => { throw new Error(message); }).catch(() => undefined);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transitions = [];
+    breaker = new CircuitBreaker(
+      'db',
+      { failureThreshold: 0.5, minimumCalls: 4, windowSize: 4, resetTimeout: 10 },
+      (state, previous) => transitions.push([state, previous])
+    );
+  });
+
+  afterEach(() => {
+    breaker.dispose();
+    jest.useRealTimers();
+  });
+
+  it('should stay closed until minimumCalls have been made', async () => {
+    await fail();
+    await fail();
+    await fail();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStats()).toEqual(
+      expect.objectContaining({ recentCalls: 3, recentFailures: 3, lastFailure: 'backend down' })
+    );
+  });
+
+  it('should open when the failure rate reaches the threshold', async () => {
+    await succeed();
+    await succeed();
+    await fail();
+    await fail('timed out');
+
+    expect(breaker.getState()).toBe('open');
+    expect(transitions).toEqual([['open', 'closed']]);
+    expect(breaker.getStats().openedAt).toBeDefined();
+  });
+
+  it('should only consider the most recent windowSize calls', async () => {
+    await fail();
+    await succeed();
+    await succeed();
+    await succeed();
+    await succeed();
+    await fail();
+
+    // Window is [succeed, succeed, succeed, fail]: 25% failures
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should fail fast with a descriptive error while open', async () => {
+    for (let i = 0; i < 4; i++) await fail();
+    const task = jest.fn(async () => 'ok');
+
+    await expect(breaker.run(task)).rejects.toThrow(
+      "Circuit breaker open for server 'db': 4 of the last 4 calls failed (last error: backend down). Retrying in 10s"
+    );
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should close after a successful half-open probe', async () => {
+    for (let i = 0; i < 4; i++) await fail();
+
+    jest.advanceTimersByTime(10000);
+    expect(breaker.getState()).toBe('half-open');
+
+    await succeed();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getStats()).toEqual(expect.objectContaining({ recentCalls: 0, recentFailures: 0 }));
+    expect(transitions).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ]);
+  });
+
+  it('should re-open after a failed half-open probe', async () => {
+    for (let i = 0; i < 4; i++) await fail();
+    jest.advanceTimersByTime(10000);
+
+    await fail('still down');
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStats().lastFailure).toBe('still down');
+  });
+
+  it('should allow only one probe at a time while half-open', async () => {
+    for (let i = 0; i < 4; i++) await fail();
+    jest.advanceTimersByTime(10000);
+
+    let finishProbe!: () => void;
+    const probe = breaker.run(() => new Promise<void>((resolve) => { finishProbe = resolve; }));
+
+    await expect(succeed()).rejects.toThrow('half-open and waiting for a probe call to finish');
+
+    finishProbe();
+    await probe;
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should not count cancelled calls', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      breaker.run(async () => { throw new Error('aborted'); }, controller.signal)
+    ).rejects.toThrow('aborted');
+
+    expect(breaker.getStats().recentCalls).toBe(0);
+  });
+});
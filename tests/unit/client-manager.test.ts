@@ -1,13 +1,38 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { MCPClientManager } from '../../src/mcp/client-manager.js';
 import type { MCPServerConfig } from '../../src/types/index.js';
 import type { Logger } from 'pino';
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  ListRootsRequestSchema,
+  LoggingMessageNotificationSchema,
+  McpError,
+  ToolListChangedNotificationSchema,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ToolCatalogPersistence } from '../../src/services/tool-catalog-persistence.js';
+import { ToolCatalog } from '../../src/services/tool-catalog.js';
 
 // Mock the MCP SDK
 jest.mock('@modelcontextprotocol/sdk/client/index.js');
 jest.mock('@modelcontextprotocol/sdk/client/stdio.js');
 
+type RequestHandler = (request: unknown, extra: { signal: AbortSignal }) => Promise<any>;
+
+/**
+ * Invoke the request handler a mocked client registered for a schema (as the backend would)
+ */
+function sendRequest(client: jest.Mocked<Client>, schema: unknown, params?: unknown): Promise<any> {
+  const call = (client.setRequestHandler as jest.Mock).mock.calls.filter(([s]) => s === schema).at(-1);
+  if (!call) {
+    throw new Error('No request handler registered for schema');
+  }
+  return (call[1] as RequestHandler)({ params }, { signal: new AbortController().signal });
+}
+
 describe('MCPClientManager', () => {
   let clientManager: MCPClientManager;
   let mockLogger: Logger;
@@ -28,11 +53,19 @@ describe('MCPClientManager', () => {
       close: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
       listTools: jest.fn<() => Promise<any>>().mockResolvedValue({ tools: [] }),
       callTool: jest.fn<() => Promise<any>>().mockResolvedValue({ content: [] }),
+      ping: jest.fn<() => Promise<any>>().mockResolvedValue({}),
+      setNotificationHandler: jest.fn(),
+      setRequestHandler: jest.fn(),
     } as unknown as jest.Mocked<Client>;
 
     clientManager = new MCPClientManager(mockLogger);
   });
 
+  afterEach(async () => {
+    // Cancel pending restarts so they don't leak into other tests
+    await clientManager.disconnectAll();
+  });
+
   describe('initializeServers', () => {
     it('should initialize enabled servers', async () => {
       const servers: MCPServerConfig[] = [
@@ -575,4 +608,1213 @@ describe('MCPClientManager', () => {
       expect(slowStatus?.lastError).toContain('timeout');
     });
   });
+
+  describe('addServer and removeServer', () => {
+    it('should connect a server added after initialization', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => ({ ...mockClient }));
+
+      await clientManager.initializeServers([{ name: 'server1', command: 'cmd1' }]);
+      await clientManager.addServer({ name: 'server2', command: 'cmd2' }, 45);
+
+      expect(clientManager.getClient('server2')).toBeDefined();
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ server: 'server2', timeoutMs: 45000 }),
+        'Connecting to MCP server'
+      );
+    });
+
+    it('should disconnect and forget a removed server', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+
+      await clientManager.initializeServers([
+        { name: 'server1', command: 'cmd1' },
+        { name: 'server2', command: 'cmd2' },
+      ]);
+      await clientManager.removeServer('server1');
+
+      expect(mockClient.close).toHaveBeenCalled();
+      expect(clientManager.getClient('server1')).toBeUndefined();
+      expect(clientManager.getServerStatuses().map((s) => s.name)).toEqual(['server2']);
+    });
+
+    it('should cancel pending restarts of a removed server', async () => {
+      jest.useFakeTimers();
+      try {
+        const failingClient = {
+          ...mockClient,
+          connect: jest.fn<() => Promise<void>>().mockRejectedValue(new Error('Failed')),
+        };
+        const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+        (Client as unknown as jest.Mock).mockImplementation(() => failingClient);
+
+        await clientManager.initializeServers([{ name: 'down', command: 'cmd' }]);
+        await clientManager.removeServer('down');
+        await jest.advanceTimersByTimeAsync(60000);
+
+        expect(Client).toHaveBeenCalledTimes(1);
+        expect(clientManager.getServerStatuses()).toEqual([]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('supervision', () => {
+    let instances: Array<jest.Mocked<Client>>;
+
+    const useClients = async (connectResults: Array<'ok' | 'fail'>) => {
+      instances = [];
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => {
+        const result = connectResults[Math.min(instances.length, connectResults.length - 1)];
+        const instance = {
+          ...mockClient,
+          connect: result === 'ok'
+            ? jest.fn<() => Promise<void>>().mockResolvedValue(undefined)
+            : jest.fn<() => Promise<void>>().mockRejectedValue(new Error('spawn failed')),
+        } as unknown as jest.Mocked<Client>;
+        instances.push(instance);
+        return instance;
+      });
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should reconnect a server whose initial connection failed', async () => {
+      await useClients(['fail', 'ok']);
+
+      await clientManager.initializeServers([{ name: 'flaky', command: 'cmd' }]);
+      expect(clientManager.getClient('flaky')).toBeUndefined();
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(clientManager.getClient('flaky')).toBe(instances[1]);
+      expect(clientManager.getServerStatuses()[0]).toEqual(
+        expect.objectContaining({ name: 'flaky', connected: true, restarts: 1 })
+      );
+    });
+
+    it('should restart a server after its connection closes unexpectedly', async () => {
+      await useClients(['ok']);
+
+      await clientManager.initializeServers([{ name: 'crashy', command: 'cmd' }]);
+      instances[0].onclose!();
+
+      const crashed = clientManager.getServerStatuses()[0];
+      expect(crashed.connected).toBe(false);
+      expect(crashed.lastCrashReason).toBe('Connection closed unexpectedly');
+      expect(crashed.lastCrashAt).toBeDefined();
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      const restarted = clientManager.getServerStatuses()[0];
+      expect(restarted.connected).toBe(true);
+      expect(restarted.restarts).toBe(1);
+      expect(restarted.lastCrashReason).toBe('Connection closed unexpectedly');
+    });
+
+    it('should report the last transport error as the crash reason', async () => {
+      await useClients(['ok']);
+
+      await clientManager.initializeServers([{ name: 'crashy', command: 'cmd' }]);
+      instances[0].onerror!(new Error('EPIPE'));
+      instances[0].onclose!();
+
+      expect(clientManager.getServerStatuses()[0].lastCrashReason).toBe('EPIPE');
+    });
+
+    it('should back off exponentially between restart attempts', async () => {
+      await useClients(['fail']);
+
+      await clientManager.initializeServers([{ name: 'down', command: 'cmd', maxRestarts: 3 }]);
+      expect(instances).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(instances).toHaveLength(2);
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(instances).toHaveLength(2);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(instances).toHaveLength(3);
+    });
+
+    it('should give up after maxRestarts with the on-failure policy', async () => {
+      await useClients(['fail']);
+
+      await clientManager.initializeServers([
+        { name: 'down', command: 'cmd', restartPolicy: 'on-failure', maxRestarts: 2 },
+      ]);
+
+      await jest.advanceTimersByTimeAsync(120000);
+
+      expect(instances).toHaveLength(3); // initial attempt + 2 restarts
+      expect(clientManager.getServerStatuses()[0].restarts).toBe(2);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ server: 'down', maxRestarts: 2 }),
+        'MCP server exceeded maximum restart attempts, giving up'
+      );
+    });
+
+    it('should keep restarting with the always policy', async () => {
+      await useClients(['fail']);
+
+      await clientManager.initializeServers([
+        { name: 'down', command: 'cmd', restartPolicy: 'always', maxRestarts: 1 },
+      ]);
+
+      await jest.advanceTimersByTimeAsync(300000);
+
+      expect(instances.length).toBeGreaterThan(5);
+    });
+
+    it('should not restart servers with the never policy', async () => {
+      await useClients(['ok']);
+
+      await clientManager.initializeServers([
+        { name: 'once', command: 'cmd', restartPolicy: 'never' },
+      ]);
+      instances[0].onclose!();
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(instances).toHaveLength(1);
+      expect(clientManager.getClient('once')).toBeUndefined();
+    });
+
+    it('should not treat disconnectAll as a crash', async () => {
+      await useClients(['ok']);
+
+      await clientManager.initializeServers([{ name: 'server1', command: 'cmd' }]);
+      await clientManager.disconnectAll();
+      instances[0].onclose!();
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(instances).toHaveLength(1);
+    });
+  });
+
+  describe('lazy startup', () => {
+    const cachedTools: Tool[] = [
+      { name: 'query', description: 'Run a query', inputSchema: { type: 'object' } },
+    ];
+    let mockPersistence: jest.Mocked<ToolCatalogPersistence>;
+    let instances: Array<jest.Mocked<Client>>;
+
+    beforeEach(async () => {
+      mockPersistence = {
+        load: jest.fn<() => Promise<Map<string, Tool[]>>>().mockResolvedValue(new Map()),
+        save: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+        getCatalogFilePath: jest.fn().mockReturnValue('/tmp/tool-catalog.json'),
+      } as unknown as jest.Mocked<ToolCatalogPersistence>;
+
+      clientManager = new MCPClientManager(mockLogger, new ToolCatalog(mockLogger, mockPersistence));
+
+      instances = [];
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => {
+        const instance = {
+          ...mockClient,
+          listTools: jest.fn<() => Promise<any>>().mockResolvedValue({ tools: cachedTools }),
+          callTool: jest.fn<() => Promise<any>>().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] }),
+        } as unknown as jest.Mocked<Client>;
+        instances.push(instance);
+        return instance;
+      });
+    });
+
+    it('should not start lazy servers that have a cached tool catalog', async () => {
+      mockPersistence.load.mockResolvedValue(new Map([['db', cachedTools]]));
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', startMode: 'lazy' }]);
+
+      expect(instances).toHaveLength(0);
+      expect(clientManager.getIdleServerTools()).toEqual([{ name: 'db', tools: cachedTools }]);
+      expect(clientManager.getServerStatuses()[0]).toEqual(
+        expect.objectContaining({ name: 'db', connected: false, idle: true })
+      );
+      expect(clientManager.isServerAvailable('db')).toBe(true);
+    });
+
+    it('should discover and persist tools for lazy servers without a catalog, then stop them', async () => {
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', startMode: 'lazy' }]);
+
+      expect(instances).toHaveLength(1);
+      expect(instances[0].listTools).toHaveBeenCalled();
+      expect(mockPersistence.save).toHaveBeenCalledWith(new Map([['db', cachedTools]]));
+      expect(instances[0].close).toHaveBeenCalled();
+      expect(clientManager.getClient('db')).toBeUndefined();
+      expect(clientManager.getIdleServerTools()).toEqual([{ name: 'db', tools: cachedTools }]);
+    });
+
+    it('should start a lazy server on the first tool call, once for concurrent calls', async () => {
+      mockPersistence.load.mockResolvedValue(new Map([['db', cachedTools]]));
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', startMode: 'lazy' }]);
+
+      const results = await Promise.all([
+        clientManager.callTool('db', 'query', { sql: 'select 1' }),
+        clientManager.callTool('db', 'query', { sql: 'select 2' }),
+      ]);
+
+      expect(instances).toHaveLength(1);
+      expect(instances[0].callTool).toHaveBeenCalledWith(
+        { name: 'query', arguments: { sql: 'select 1' } },
+        undefined,
+        expect.anything()
+      );
+      expect(results[1]).toEqual({ content: [{ type: 'text', text: 'ok' }] });
+      expect(clientManager.getClient('db')).toBe(instances[0]);
+      expect(clientManager.getIdleServerTools()).toEqual([]);
+    });
+
+    it('should drop the cached catalog of a removed lazy server so it lists its tools again when re-added', async () => {
+      mockPersistence.load.mockResolvedValue(new Map([['db', cachedTools]]));
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', startMode: 'lazy' }]);
+
+      await clientManager.removeServer('db');
+
+      expect(mockPersistence.save).toHaveBeenLastCalledWith(new Map());
+      expect(clientManager.getIdleServerTools()).toEqual([]);
+
+      await clientManager.addServer({ name: 'db', command: 'other-cmd', startMode: 'lazy' });
+
+      expect(instances).toHaveLength(1);
+      expect(instances[0].listTools).toHaveBeenCalled();
+      expect(mockPersistence.save).toHaveBeenLastCalledWith(new Map([['db', cachedTools]]));
+    });
+
+    it('should reject tool calls for unknown or disconnected eager servers', async () => {
+      await expect(clientManager.callTool('missing', 'tool')).rejects.toThrow(
+        "Server 'missing' not found or not connected"
+      );
+      expect(clientManager.isServerAvailable('missing')).toBe(false);
+    });
+
+    it('should stop a lazy server after idleTimeout without calls and keep its tools visible', async () => {
+      jest.useFakeTimers();
+      try {
+        mockPersistence.load.mockResolvedValue(new Map([['db', cachedTools]]));
+        await clientManager.initializeServers([
+          { name: 'db', command: 'cmd', startMode: 'lazy', idleTimeout: 60 },
+        ]);
+
+        await clientManager.callTool('db', 'query');
+        await jest.advanceTimersByTimeAsync(59000);
+        expect(clientManager.getClient('db')).toBeDefined();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(instances[0].close).toHaveBeenCalled();
+        expect(clientManager.getClient('db')).toBeUndefined();
+        expect(clientManager.getIdleServerTools()).toEqual([{ name: 'db', tools: cachedTools }]);
+
+        // Next call starts it again
+        await clientManager.callTool('db', 'query');
+        expect(instances).toHaveLength(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should stop a lazy server again after idleTimeout when a circuit breaker probe started it', async () => {
+      jest.useFakeTimers();
+      try {
+        mockPersistence.load.mockResolvedValue(new Map([['db', cachedTools]]));
+        await clientManager.initializeServers([
+          {
+            name: 'db',
+            command: 'cmd',
+            startMode: 'lazy',
+            idleTimeout: 1,
+            circuitBreaker: { minimumCalls: 2, resetTimeout: 5, hideTools: true },
+          },
+        ]);
+
+        await clientManager.callTool('db', 'query');
+        instances[0].callTool.mockRejectedValue(new Error('backend down'));
+        await clientManager.callTool('db', 'query').catch(() => undefined);
+        await clientManager.callTool('db', 'query').catch(() => undefined);
+        expect(clientManager.isServerHidden('db')).toBe(true);
+
+        // Stopped while idle, then started by the half-open probe
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(instances).toHaveLength(2);
+        expect(instances[1].ping).toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(instances[1].close).toHaveBeenCalled();
+        expect(clientManager.getClient('db')).toBeUndefined();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not auto-restart a crashed lazy server', async () => {
+      jest.useFakeTimers();
+      try {
+        mockPersistence.load.mockResolvedValue(new Map([['db', cachedTools]]));
+        await clientManager.initializeServers([{ name: 'db', command: 'cmd', startMode: 'lazy' }]);
+        await clientManager.callTool('db', 'query');
+
+        instances[0].onclose!();
+        await jest.advanceTimersByTimeAsync(60000);
+
+        expect(instances).toHaveLength(1);
+        expect(clientManager.getServerStatuses()[0]).toEqual(
+          expect.objectContaining({ idle: true, lastCrashReason: 'Connection closed unexpectedly' })
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('call timeouts and cancellation', () => {
+    const setup = async (config: Partial<MCPServerConfig> = {}) => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      await clientManager.initializeServers([{ name: 'slow', command: 'cmd', ...config }]);
+    };
+
+    it('should use a 60 second call timeout by default', async () => {
+      await setup();
+
+      await clientManager.callTool('slow', 'work', { n: 1 });
+
+      expect(mockClient.callTool).toHaveBeenCalledWith(
+        { name: 'work', arguments: { n: 1 } },
+        undefined,
+        { signal: undefined, timeout: 60000 }
+      );
+    });
+
+    it('should prefer per-tool timeouts over the server callTimeout', async () => {
+      await setup({ callTimeout: 5, toolCallTimeouts: { build: 300 } });
+
+      await clientManager.callTool('slow', 'work');
+      await clientManager.callTool('slow', 'build');
+
+      expect(mockClient.callTool).toHaveBeenNthCalledWith(
+        1, expect.anything(), undefined, expect.objectContaining({ timeout: 5000 })
+      );
+      expect(mockClient.callTool).toHaveBeenNthCalledWith(
+        2, expect.anything(), undefined, expect.objectContaining({ timeout: 300000 })
+      );
+    });
+
+    it('should report timeouts with the server, tool and limit', async () => {
+      await setup({ callTimeout: 2 });
+      (mockClient.callTool as jest.Mock<() => Promise<any>>).mockRejectedValue(
+        new McpError(ErrorCode.RequestTimeout, 'Request timed out', { timeout: 2000 })
+      );
+
+      await expect(clientManager.callTool('slow', 'work')).rejects.toThrow(
+        "Tool call 'work' on server 'slow' timed out after 2000ms"
+      );
+    });
+
+    it('should forward the abort signal and report cancellation', async () => {
+      await setup();
+      const controller = new AbortController();
+      (mockClient.callTool as jest.Mock<(...args: any[]) => Promise<any>>).mockImplementation(
+        (_params, _schema, options: { signal: AbortSignal }) =>
+          new Promise((_, reject) => {
+            options.signal.addEventListener('abort', () => reject(options.signal.reason));
+            if (options.signal.aborted) reject(options.signal.reason);
+          })
+      );
+
+      const call = clientManager.callTool('slow', 'work', {}, controller.signal);
+      controller.abort();
+
+      await expect(call).rejects.toThrow("Tool call 'work' on server 'slow' was cancelled");
+    });
+
+    it('should pass through other backend errors unchanged', async () => {
+      await setup();
+      (mockClient.callTool as jest.Mock<() => Promise<any>>).mockRejectedValue(new Error('boom'));
+
+      await expect(clientManager.callTool('slow', 'work')).rejects.toThrow('boom');
+    });
+  });
+
+  describe('concurrency limits', () => {
+    it('should queue calls over maxConcurrentCalls and report queue stats', async () => {
+      const pending: Array<() => void> = [];
+      (mockClient.callTool as jest.Mock<() => Promise<any>>).mockImplementation(
+        () => new Promise((resolve) => pending.push(() => resolve({ content: [] })))
+      );
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      await clientManager.initializeServers([
+        { name: 'db', command: 'cmd', maxConcurrentCalls: 1, maxQueueLength: 1 },
+      ]);
+
+      const first = clientManager.callTool('db', 'query');
+      const second = clientManager.callTool('db', 'query');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockClient.callTool).toHaveBeenCalledTimes(1);
+      await expect(clientManager.callTool('db', 'query')).rejects.toThrow("Server 'db' is busy");
+      expect(clientManager.getServerStatuses()[0].callQueue).toEqual(
+        expect.objectContaining({ activeCalls: 1, queuedCalls: 1, rejectedCalls: 1 })
+      );
+
+      pending.shift()!();
+      await first;
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockClient.callTool).toHaveBeenCalledTimes(2);
+
+      pending.shift()!();
+      await second;
+    });
+
+    it('should not report queue stats for servers without limits', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      expect(clientManager.getServerStatuses()[0].callQueue).toBeUndefined();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const failingCall = async () => {
+      await clientManager.callTool('db', 'query').catch(() => undefined);
+    };
+
+    beforeEach(async () => {
+      (mockClient.callTool as jest.Mock<() => Promise<any>>).mockRejectedValue(new Error('backend down'));
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+    });
+
+    it('should fail fast once the circuit opens', async () => {
+      await clientManager.initializeServers([
+        { name: 'db', command: 'cmd', circuitBreaker: { minimumCalls: 2 } },
+      ]);
+
+      await failingCall();
+      await failingCall();
+
+      await expect(clientManager.callTool('db', 'query')).rejects.toThrow(
+        "Circuit breaker open for server 'db'"
+      );
+      expect(mockClient.callTool).toHaveBeenCalledTimes(2);
+      expect(clientManager.getServerStatuses()[0].circuit).toEqual(
+        expect.objectContaining({ state: 'open', recentFailures: 2 })
+      );
+      // Tools stay listed unless hideTools is set
+      expect(clientManager.isServerHidden('db')).toBe(false);
+    });
+
+    it('should hide tools while open and restore them after a successful probe', async () => {
+      jest.useFakeTimers();
+      try {
+        const onToolListChanged = jest.fn();
+        clientManager.setToolListChangedHandler(onToolListChanged);
+        await clientManager.initializeServers([
+          {
+            name: 'db',
+            command: 'cmd',
+            circuitBreaker: { minimumCalls: 2, resetTimeout: 5, hideTools: true },
+          },
+        ]);
+
+        await failingCall();
+        await failingCall();
+
+        expect(clientManager.isServerHidden('db')).toBe(true);
+        await jest.advanceTimersByTimeAsync(250);
+        expect(onToolListChanged).toHaveBeenCalledTimes(1);
+
+        await jest.advanceTimersByTimeAsync(5000);
+
+        expect(mockClient.ping).toHaveBeenCalled();
+        expect(clientManager.isServerHidden('db')).toBe(false);
+        await jest.advanceTimersByTimeAsync(250);
+        expect(onToolListChanged).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should keep tools hidden when the probe fails', async () => {
+      jest.useFakeTimers();
+      try {
+        const onToolListChanged = jest.fn();
+        clientManager.setToolListChangedHandler(onToolListChanged);
+        (mockClient.ping as jest.Mock<() => Promise<any>>).mockRejectedValue(new Error('no pong'));
+        await clientManager.initializeServers([
+          {
+            name: 'db',
+            command: 'cmd',
+            circuitBreaker: { minimumCalls: 2, resetTimeout: 5, hideTools: true },
+          },
+        ]);
+
+        await failingCall();
+        await failingCall();
+        await jest.advanceTimersByTimeAsync(6000);
+
+        expect(clientManager.isServerHidden('db')).toBe(true);
+        expect(clientManager.getServerStatuses()[0].circuit).toEqual(
+          expect.objectContaining({ state: 'open', lastFailure: 'no pong' })
+        );
+        expect(onToolListChanged).toHaveBeenCalledTimes(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('health checks', () => {
+    beforeEach(async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+    });
+
+    it('should record latency and the last successful ping', async () => {
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      await clientManager.checkHealth('db');
+
+      expect(mockClient.ping).toHaveBeenCalledWith({ timeout: 10000 });
+      expect(clientManager.getServerStatuses()[0]).toEqual(
+        expect.objectContaining({
+          latencyMs: expect.any(Number),
+          lastPingAt: expect.any(String),
+          failedPings: 0,
+        })
+      );
+    });
+
+    it('should ping periodically at the configured interval', async () => {
+      jest.useFakeTimers();
+      try {
+        await clientManager.initializeServers([{ name: 'db', command: 'cmd', healthCheckInterval: 5 }]);
+
+        await jest.advanceTimersByTimeAsync(15000);
+
+        expect(mockClient.ping).toHaveBeenCalledTimes(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not ping when health checks are disabled', async () => {
+      jest.useFakeTimers();
+      try {
+        await clientManager.initializeServers([{ name: 'db', command: 'cmd', healthCheckInterval: 0 }]);
+
+        await jest.advanceTimersByTimeAsync(120000);
+
+        expect(mockClient.ping).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should count failed pings and close unresponsive connections', async () => {
+      (mockClient.ping as jest.Mock<() => Promise<any>>).mockRejectedValue(new Error('Request timed out'));
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', restartPolicy: 'never' }]);
+
+      await clientManager.checkHealth('db');
+      await clientManager.checkHealth('db');
+
+      expect(clientManager.getServerStatuses()[0]).toEqual(
+        expect.objectContaining({ connected: true, failedPings: 2, lastPingError: 'Request timed out' })
+      );
+      expect(mockClient.close).not.toHaveBeenCalled();
+
+      await clientManager.checkHealth('db');
+
+      expect(mockClient.close).toHaveBeenCalled();
+
+      // The transport reports the close; supervision records the health check failure
+      mockClient.onclose!();
+      expect(clientManager.getServerStatuses()[0]).toEqual(
+        expect.objectContaining({
+          connected: false,
+          lastCrashReason: 'Health check failed 3 times: Request timed out',
+        })
+      );
+    });
+
+    it('should reset the failure count after a successful ping', async () => {
+      (mockClient.ping as jest.Mock<() => Promise<any>>)
+        .mockRejectedValueOnce(new Error('Request timed out'))
+        .mockResolvedValue({});
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      await clientManager.checkHealth('db');
+      await clientManager.checkAllHealth();
+
+      expect(clientManager.getServerStatuses()[0]).toEqual(
+        expect.objectContaining({ failedPings: 0, lastPingError: undefined })
+      );
+    });
+  });
+
+  describe('stderr capture', () => {
+    it('should pipe stdio stderr into the server log and report it on failure', async () => {
+      const { PassThrough } = await import('stream');
+      const { StdioClientTransport } = await import('@modelcontextprotocol/sdk/client/stdio.js');
+      const stderr = new PassThrough();
+      (StdioClientTransport as unknown as jest.Mock).mockImplementationOnce(() =>
+        Object.create(StdioClientTransport.prototype, { stderr: { value: stderr } })
+      );
+
+      const failingClient = {
+        ...mockClient,
+        connect: jest.fn(async () => {
+          stderr.write('Loading config\nError: API_KEY is not set\n');
+          await new Promise((resolve) => setImmediate(resolve));
+          throw new Error('Connection closed');
+        }),
+      };
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => failingClient);
+
+      await clientManager.initializeServers([{ name: 'api', command: 'cmd', restartPolicy: 'never' }]);
+
+      expect(StdioClientTransport).toHaveBeenCalledWith(expect.objectContaining({ stderr: 'pipe' }));
+      expect(clientManager.getServerLogs('api', 10)).toEqual(['Loading config', 'Error: API_KEY is not set']);
+      expect(clientManager.getServerStatuses()[0].lastError).toBe(
+        'Connection closed (last stderr: Error: API_KEY is not set)'
+      );
+    });
+  });
+
+  describe('backend tool list changes', () => {
+    const notifyToolListChanged = async (client: jest.Mocked<Client>) => {
+      const [, handler] = (client.setNotificationHandler as jest.Mock).mock.calls
+        .filter(([schema]) => schema === ToolListChangedNotificationSchema)
+        .at(-1) as [unknown, () => Promise<void>];
+      await handler();
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should subscribe to tools/list_changed from each backend', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      expect(mockClient.setNotificationHandler).toHaveBeenCalledWith(
+        ToolListChangedNotificationSchema,
+        expect.any(Function)
+      );
+    });
+
+    it('should emit a single debounced change for a burst of notifications', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      const onToolListChanged = jest.fn();
+      clientManager.setToolListChangedHandler(onToolListChanged);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      await notifyToolListChanged(mockClient);
+      await notifyToolListChanged(mockClient);
+      await jest.advanceTimersByTimeAsync(100);
+      await notifyToolListChanged(mockClient);
+
+      expect(onToolListChanged).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(250);
+
+      expect(onToolListChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore notifications from replaced connections', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      const onToolListChanged = jest.fn();
+      clientManager.setToolListChangedHandler(onToolListChanged);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+      await clientManager.removeServer('db');
+
+      await notifyToolListChanged(mockClient);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(onToolListChanged).not.toHaveBeenCalled();
+    });
+
+    it('should report tools dropping out on a lost connection and returning after a restart', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      const onToolListChanged = jest.fn();
+      clientManager.setToolListChangedHandler(onToolListChanged);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+      mockClient.onclose!();
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(clientManager.getServerTools('db')).toBeUndefined();
+      expect(onToolListChanged).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(clientManager.getServerTools('db')).toBeDefined();
+      expect(onToolListChanged).toHaveBeenCalledTimes(2);
+    });
+
+    it('should catalog tools at connect time and hide them while disconnected', async () => {
+      const tools: Tool[] = [{ name: 'query', inputSchema: { type: 'object' } }];
+      (mockClient.listTools as jest.Mock<() => Promise<any>>).mockResolvedValue({ tools });
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', restartPolicy: 'never' }]);
+      expect(clientManager.getServerTools('db')).toEqual(tools);
+
+      mockClient.onclose!();
+
+      expect(clientManager.getServerTools('db')).toBeUndefined();
+      expect(clientManager.getAvailableTools()).toEqual([]);
+    });
+
+    it('should refresh the catalog of a running server', async () => {
+      const updatedTools: Tool[] = [{ name: 'migrate', inputSchema: { type: 'object' } }];
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+      expect(clientManager.getServerTools('db')).toEqual([]);
+
+      (mockClient.listTools as jest.Mock<() => Promise<any>>).mockResolvedValue({ tools: updatedTools });
+      await notifyToolListChanged(mockClient);
+
+      expect(clientManager.getServerTools('db')).toEqual(updatedTools);
+      expect(clientManager.getAvailableTools()).toEqual([{ name: 'db', tools: updatedTools }]);
+    });
+
+    it('should refresh the persisted catalog of a running lazy server', async () => {
+      const updatedTools: Tool[] = [
+        { name: 'query', inputSchema: { type: 'object' } },
+        { name: 'migrate', inputSchema: { type: 'object' } },
+      ];
+      const mockPersistence = {
+        load: jest.fn<() => Promise<Map<string, Tool[]>>>().mockResolvedValue(
+          new Map([['db', [{ name: 'query', inputSchema: { type: 'object' } } as Tool]]])
+        ),
+        save: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<ToolCatalogPersistence>;
+      clientManager = new MCPClientManager(mockLogger, new ToolCatalog(mockLogger, mockPersistence));
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd', startMode: 'lazy' }]);
+      await clientManager.callTool('db', 'query');
+
+      (mockClient.listTools as jest.Mock<() => Promise<any>>).mockResolvedValue({ tools: updatedTools });
+      await notifyToolListChanged(mockClient);
+
+      const saved = (mockPersistence.save as jest.Mock).mock.calls.at(-1)![0] as Map<string, Tool[]>;
+      expect(saved.get('db')).toEqual(updatedTools);
+    });
+  });
+
+  describe('sampling relay', () => {
+    const samplingParams = {
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text: 'Summarise' } }],
+      maxTokens: 100,
+    };
+
+    const sendSamplingRequest = (client: jest.Mocked<Client>) =>
+      sendRequest(client, CreateMessageRequestSchema, samplingParams);
+
+    beforeEach(async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+    });
+
+    it('should only advertise sampling to servers that opted in', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+
+      await clientManager.initializeServers([
+        { name: 'plain', command: 'cmd' },
+        { name: 'agent', command: 'cmd', sampling: {} },
+      ]);
+
+      const capabilities = (Client as unknown as jest.Mock).mock.calls.map(
+        (call) => (call[1] as { capabilities: object }).capabilities
+      );
+      expect(capabilities).toEqual([
+        expect.not.objectContaining({ sampling: expect.anything() }),
+        expect.objectContaining({ sampling: {} }),
+      ]);
+      expect(
+        (mockClient.setRequestHandler as jest.Mock).mock.calls.filter(([s]) => s === CreateMessageRequestSchema)
+      ).toHaveLength(1);
+    });
+
+    it('should relay sampling requests with the originating server name', async () => {
+      const result = { role: 'assistant', content: { type: 'text', text: 'Done' }, model: 'm' };
+      const handler = jest.fn<(...args: any[]) => Promise<any>>().mockResolvedValue(result);
+      clientManager.setSamplingHandler(handler);
+
+      await clientManager.initializeServers([{ name: 'agent', command: 'cmd', sampling: {} }]);
+
+      await expect(sendSamplingRequest(mockClient)).resolves.toEqual(result);
+      expect(handler).toHaveBeenCalledWith('agent', samplingParams, expect.any(AbortSignal));
+    });
+
+    it('should reject requests over the rate limit', async () => {
+      const handler = jest.fn<(...args: any[]) => Promise<any>>().mockResolvedValue({});
+      clientManager.setSamplingHandler(handler);
+
+      await clientManager.initializeServers([
+        { name: 'agent', command: 'cmd', sampling: { maxRequestsPerMinute: 2 } },
+      ]);
+
+      await sendSamplingRequest(mockClient);
+      await sendSamplingRequest(mockClient);
+      await expect(sendSamplingRequest(mockClient)).rejects.toThrow(
+        "Sampling rate limit exceeded for server 'agent'"
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply the rate limit to a replicated server as a whole', async () => {
+      const instances: Array<jest.Mocked<Client>> = [];
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => {
+        const instance = { ...mockClient, setRequestHandler: jest.fn() } as unknown as jest.Mocked<Client>;
+        instances.push(instance);
+        return instance;
+      });
+      const handler = jest.fn<(...args: any[]) => Promise<any>>().mockResolvedValue({});
+      clientManager.setSamplingHandler(handler);
+
+      await clientManager.initializeServers([
+        { name: 'agent', command: 'cmd', replicas: 2, sampling: { maxRequestsPerMinute: 2 } },
+      ]);
+
+      await sendSamplingRequest(instances[0]);
+      await sendSamplingRequest(instances[1]);
+      await expect(sendSamplingRequest(instances[1])).rejects.toThrow(
+        "Sampling rate limit exceeded for server 'agent'"
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject requests while no client is connected', async () => {
+      await clientManager.initializeServers([{ name: 'agent', command: 'cmd', sampling: {} }]);
+
+      await expect(sendSamplingRequest(mockClient)).rejects.toThrow(
+        'Sampling is not available: no client is connected to the proxy'
+      );
+    });
+  });
+
+  describe('elicitation and roots relay', () => {
+    const clientRoots = [
+      { uri: 'file:///home/me/project', name: 'project' },
+      { uri: 'file:///home/me/secrets' },
+    ];
+
+    beforeEach(async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => ({
+        ...mockClient,
+        setRequestHandler: jest.fn(),
+        sendRootsListChanged: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      }));
+    });
+
+    const clientFor = (name: string) => clientManager.getClient(name) as jest.Mocked<Client>;
+
+    it('should advertise elicitation and roots to every backend', async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      expect((Client as unknown as jest.Mock).mock.calls[0][1]).toEqual({
+        capabilities: { elicitation: {}, roots: { listChanged: true } },
+      });
+    });
+
+    it('should relay elicitation requests with the originating server name', async () => {
+      const params = { message: 'Which branch?', requestedSchema: { type: 'object', properties: {} } };
+      const handler = jest.fn<(...args: any[]) => Promise<any>>().mockResolvedValue({ action: 'decline' });
+      clientManager.setElicitationHandler(handler);
+      await clientManager.initializeServers([{ name: 'git', command: 'cmd' }]);
+
+      await expect(sendRequest(clientFor('git'), ElicitRequestSchema, params)).resolves.toEqual({ action: 'decline' });
+      expect(handler).toHaveBeenCalledWith('git', params, expect.any(AbortSignal));
+    });
+
+    it('should answer roots/list with the client roots, fetched once', async () => {
+      const provider = jest.fn<() => Promise<any>>().mockResolvedValue(clientRoots);
+      clientManager.setRootsProvider(provider);
+      await clientManager.initializeServers([
+        { name: 'a', command: 'cmd' },
+        { name: 'b', command: 'cmd' },
+      ]);
+
+      expect(await sendRequest(clientFor('a'), ListRootsRequestSchema)).toEqual({ roots: clientRoots });
+      expect(await sendRequest(clientFor('b'), ListRootsRequestSchema)).toEqual({ roots: clientRoots });
+      expect(provider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply per-server roots overrides and restrictions', async () => {
+      clientManager.setRootsProvider(async () => clientRoots);
+      await clientManager.initializeServers([
+        { name: 'restricted', command: 'cmd', roots: { allow: ['file:///home/me/project*'] } },
+        { name: 'pinned', command: 'cmd', roots: { override: ['/srv/data', 'https://example.com/repo'] } },
+      ]);
+
+      expect(await sendRequest(clientFor('restricted'), ListRootsRequestSchema)).toEqual({
+        roots: [clientRoots[0]],
+      });
+      expect(await sendRequest(clientFor('pinned'), ListRootsRequestSchema)).toEqual({
+        roots: [{ uri: 'file:///srv/data' }, { uri: 'https://example.com/repo' }],
+      });
+    });
+
+    it('should refetch roots and notify backends when the client roots change', async () => {
+      const provider = jest.fn<() => Promise<any>>().mockResolvedValue(clientRoots);
+      clientManager.setRootsProvider(provider);
+      await clientManager.initializeServers([
+        { name: 'a', command: 'cmd' },
+        { name: 'pinned', command: 'cmd', roots: { override: ['/srv/data'] } },
+      ]);
+      await sendRequest(clientFor('a'), ListRootsRequestSchema);
+
+      await clientManager.notifyRootsChanged();
+      await sendRequest(clientFor('a'), ListRootsRequestSchema);
+
+      expect(provider).toHaveBeenCalledTimes(2);
+      expect(clientFor('a').sendRootsListChanged).toHaveBeenCalled();
+      expect(clientFor('pinned').sendRootsListChanged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('progress and log relay', () => {
+    beforeEach(async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+    });
+
+    it('should pass progress notifications of a tool call to onProgress', async () => {
+      mockClient.callTool.mockImplementation(async (_params, _schema, options) => {
+        options?.onprogress?.({ progress: 1, total: 2, message: 'halfway' });
+        return { content: [] };
+      });
+      const onProgress = jest.fn();
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      await clientManager.callTool('db', 'migrate', {}, undefined, onProgress);
+
+      expect(onProgress).toHaveBeenCalledWith({ progress: 1, total: 2, message: 'halfway' });
+    });
+
+    it('should forward backend log messages with the server name', async () => {
+      const onLogMessage = jest.fn();
+      clientManager.setLogMessageHandler(onLogMessage);
+      await clientManager.initializeServers([{ name: 'db', command: 'cmd' }]);
+
+      const [, handler] = (mockClient.setNotificationHandler as jest.Mock).mock.calls.find(
+        ([schema]) => schema === LoggingMessageNotificationSchema
+      ) as [unknown, (notification: unknown) => Promise<void>];
+      await handler({ method: 'notifications/message', params: { level: 'warning', data: 'slow query' } });
+
+      expect(onLogMessage).toHaveBeenCalledWith('db', { level: 'warning', data: 'slow query' });
+    });
+  });
+
+  describe('argument completion', () => {
+    const params = {
+      ref: { type: 'ref/prompt' as const, name: 'review' },
+      argument: { name: 'focus', value: 'te' },
+    };
+
+    beforeEach(async () => {
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => mockClient);
+      mockClient.complete = jest.fn<() => Promise<any>>().mockResolvedValue({
+        completion: { values: ['tests', 'types'] },
+      });
+    });
+
+    it('should forward completion requests to the backend', async () => {
+      mockClient.getServerCapabilities = jest.fn<() => any>().mockReturnValue({ completions: {} });
+      await clientManager.initializeServers([{ name: 'git', command: 'cmd' }]);
+
+      const result = await clientManager.complete('git', params);
+
+      expect(mockClient.complete).toHaveBeenCalledWith(params);
+      expect(result.completion.values).toEqual(['tests', 'types']);
+    });
+
+    it('should return no values for backends without the completions capability', async () => {
+      mockClient.getServerCapabilities = jest.fn<() => any>().mockReturnValue({ prompts: {} });
+      await clientManager.initializeServers([{ name: 'git', command: 'cmd' }]);
+
+      const result = await clientManager.complete('git', params);
+
+      expect(mockClient.complete).not.toHaveBeenCalled();
+      expect(result).toEqual({ completion: { values: [] } });
+    });
+
+    it('should reject completion requests for unknown servers', async () => {
+      await expect(clientManager.complete('missing', params)).rejects.toThrow(
+        "Server 'missing' not found or not connected"
+      );
+    });
+  });
+
+  describe('replicated servers', () => {
+    let replicaClients: Array<jest.Mocked<Client>>;
+
+    const callText = async (serverName: string) => {
+      const result = await clientManager.callTool(serverName, 'search');
+      return (result.content as Array<{ text: string }>)[0].text;
+    };
+
+    beforeEach(async () => {
+      replicaClients = [];
+      const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+      (Client as unknown as jest.Mock).mockImplementation(() => {
+        const replica = replicaClients.length + 1;
+        const client = {
+          connect: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+          close: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+          listTools: jest.fn<() => Promise<any>>().mockResolvedValue({
+            tools: [{ name: 'search', inputSchema: { type: 'object' } }],
+          }),
+          callTool: jest.fn<() => Promise<any>>().mockResolvedValue({
+            content: [{ type: 'text', text: `replica ${replica}` }],
+          }),
+          setNotificationHandler: jest.fn(),
+          setRequestHandler: jest.fn(),
+        } as unknown as jest.Mocked<Client>;
+        replicaClients.push(client);
+        return client;
+      });
+    });
+
+    it('should run every replica behind the server name', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 3 }]);
+
+      expect(replicaClients).toHaveLength(3);
+      expect(clientManager.getAvailableTools()).toEqual([
+        { name: 'search', tools: [{ name: 'search', inputSchema: { type: 'object' } }] },
+      ]);
+      expect(clientManager.getConnectedClients().map(({ name }) => name)).toEqual(['search']);
+
+      const statuses = clientManager.getServerStatuses();
+      expect(statuses).toHaveLength(1);
+      expect(statuses[0]).toMatchObject({ name: 'search', connected: true, restarts: 0 });
+      expect(statuses[0].replicas!.map((replica) => replica.name)).toEqual(['search#1', 'search#2', 'search#3']);
+    });
+
+    it('should route calls round-robin by default', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 3 }]);
+
+      const texts = [];
+      for (let i = 0; i < 4; i++) {
+        texts.push(await callText('search'));
+      }
+
+      expect(texts).toEqual(['replica 1', 'replica 2', 'replica 3', 'replica 1']);
+    });
+
+    it('should not move the round-robin order when a client is looked up', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 3 }]);
+
+      expect(await callText('search')).toBe('replica 1');
+      expect(clientManager.getClient('search')).toBe(replicaClients[1]);
+      expect(clientManager.getClient('search')).toBe(replicaClients[1]);
+      expect(await callText('search')).toBe('replica 2');
+    });
+
+    it('should route calls to the least busy replica', async () => {
+      await clientManager.initializeServers([
+        { name: 'search', command: 'cmd', replicas: 2, loadBalancing: 'least-busy' },
+      ]);
+      let release!: () => void;
+      replicaClients[0].callTool.mockImplementationOnce(
+        () => new Promise((resolve) => (release = () => resolve({ content: [] })))
+      );
+
+      const pending = clientManager.callTool('search', 'search');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(await callText('search')).toBe('replica 2');
+      expect(await callText('search')).toBe('replica 2');
+
+      release();
+      await pending;
+    });
+
+    it('should skip disconnected replicas', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 2 }]);
+
+      replicaClients[0].onclose!();
+
+      expect(await callText('search')).toBe('replica 2');
+      expect(await callText('search')).toBe('replica 2');
+    });
+
+    it('should fail over when a replica disconnects during a call', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 2 }]);
+      replicaClients[0].callTool.mockImplementationOnce(async () => {
+        replicaClients[0].onclose!();
+        throw new McpError(ErrorCode.ConnectionClosed, 'Connection closed');
+      });
+
+      expect(await callText('search')).toBe('replica 2');
+    });
+
+    it('should not fail over errors from a connected replica', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 2 }]);
+      replicaClients[0].callTool.mockRejectedValueOnce(new Error('index corrupted'));
+
+      await expect(clientManager.callTool('search', 'search')).rejects.toThrow('index corrupted');
+      expect(replicaClients[1].callTool).not.toHaveBeenCalled();
+    });
+
+    it('should reject calls when no replica is available', async () => {
+      await clientManager.initializeServers([
+        { name: 'search', command: 'cmd', replicas: 2, restartPolicy: 'never' },
+      ]);
+
+      replicaClients[0].onclose!();
+      replicaClients[1].onclose!();
+
+      expect(clientManager.isServerAvailable('search')).toBe(false);
+      await expect(clientManager.callTool('search', 'search')).rejects.toThrow(
+        "No replica of server 'search' is available"
+      );
+    });
+
+    it('should remove every replica with the server', async () => {
+      await clientManager.initializeServers([{ name: 'search', command: 'cmd', replicas: 2 }]);
+
+      await clientManager.removeServer('search');
+
+      expect(replicaClients[0].close).toHaveBeenCalled();
+      expect(replicaClients[1].close).toHaveBeenCalled();
+      expect(clientManager.getServerStatuses()).toEqual([]);
+    });
+  });
 });
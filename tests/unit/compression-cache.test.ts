@@ -208,6 +208,83 @@ describe('CompressionCache', () => {
     });
   });
 
+  describe('parameter descriptions', () => {
+    const inputSchema = {
+      type: 'object' as const,
+      properties: {
+        path: { type: 'string', description: 'Absolute path of the file to read from disk' },
+        encoding: { type: 'string', description: 'Text encoding used to decode the file' },
+      },
+      required: ['path'],
+    };
+
+    beforeEach(() => {
+      cache.saveCompressed('filesystem', 'read_file', 'Read file', 'Read the complete contents of a file', {
+        path: { original: 'Absolute path of the file to read from disk', compressed: 'Abs path' },
+      });
+    });
+
+    it('should replace cached parameter descriptions and keep the others', () => {
+      const schema = cache.getInputSchema('filesystem', 'read_file', inputSchema);
+
+      expect(schema.properties).toEqual({
+        path: { type: 'string', description: 'Abs path' },
+        encoding: { type: 'string', description: 'Text encoding used to decode the file' },
+      });
+      expect(schema.required).toEqual(['path']);
+      expect(cache.getCompressedParameters('filesystem', 'read_file')).toEqual({
+        path: { original: 'Absolute path of the file to read from disk', compressed: 'Abs path' },
+      });
+    });
+
+    it('should keep parameters named like Object.prototype members', () => {
+      const schema = cache.getInputSchema('filesystem', 'read_file', {
+        type: 'object',
+        properties: { constructor: { type: 'string', description: 'Class name' } },
+      });
+
+      expect(schema.properties).toEqual({ constructor: { type: 'string', description: 'Class name' } });
+    });
+
+    it('should return the full schema when expanded in session or matching noCompress patterns', () => {
+      expect(cache.getInputSchema('filesystem', 'read_file', inputSchema, true)).toBe(inputSchema);
+
+      cache.setNoCompressPatterns(['filesystem__*']);
+      expect(cache.getInputSchema('filesystem', 'read_file', inputSchema)).toBe(inputSchema);
+    });
+
+    it('should return the schema unchanged for tools without cached parameters', () => {
+      cache.saveCompressed('filesystem', 'write_file', 'Write file');
+
+      expect(cache.getInputSchema('filesystem', 'write_file', inputSchema)).toBe(inputSchema);
+      expect(cache.getCompressedParameters('filesystem', 'write_file')).toBeUndefined();
+    });
+
+    it('should minify schemas unless the tool is expanded', () => {
+      const annotated = {
+        ...inputSchema,
+        properties: { ...inputSchema.properties, mode: { type: 'string', title: 'Mode', default: 'utf8' } },
+      };
+      cache.setSchemaMinification('aggressive');
+
+      const schema = cache.getInputSchema('filesystem', 'read_file', annotated);
+
+      expect(schema.properties!.path).toEqual({ type: 'string', description: 'Abs path' });
+      expect(schema.properties!.mode).toEqual({ type: 'string' });
+      expect(schema.required).toEqual(['path']);
+      expect(cache.getInputSchema('filesystem', 'read_file', annotated, true)).toBe(annotated);
+    });
+
+    it('should count parameter descriptions in the cache metrics', () => {
+      const metrics = cache.getCacheMetrics();
+
+      expect(metrics.totalOriginalChars).toBe(
+        'Read the complete contents of a file'.length + 'Absolute path of the file to read from disk'.length
+      );
+      expect(metrics.totalCompressedChars).toBe('Read file'.length + 'Abs path'.length);
+    });
+  });
+
   describe('clear', () => {
     it('should clear all cached descriptions', () => {
       cache.saveCompressed('server1', 'tool1', 'compressed1');
@@ -366,6 +443,15 @@ describe('CompressionCache', () => {
       // But should display original
       expect(cache.getDescription('filesystem', 'read_file', 'original', false)).toBe('original');
     });
+
+    it('should match noCompress patterns against names built with the namespace separator', () => {
+      cache.setNamespaceSeparator('.');
+      cache.setNoCompressPatterns(['github.create_*']);
+
+      cache.saveCompressed('github', 'create_issue', 'compressed', 'original');
+
+      expect(cache.getDescription('github', 'create_issue', 'original', false)).toBe('original');
+    });
   });
 
   describe('persistence integration', () => {
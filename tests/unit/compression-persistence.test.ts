@@ -67,6 +67,27 @@ describe('CompressionPersistence', () => {
       });
     });
 
+    it('should save and load compressed parameter descriptions', async () => {
+      const parameters = {
+        path: { original: 'Absolute path of the file to read', compressed: 'Abs path' },
+      };
+      const cache = new Map([
+        [
+          'filesystem:read_file',
+          {
+            compressed: 'Read file',
+            compressedAt: '2024-01-01T00:00:00.000Z',
+            parameters,
+          },
+        ],
+      ]);
+
+      await persistence.save(cache);
+      const loaded = await persistence.load();
+
+      expect(loaded.get('filesystem:read_file')?.parameters).toEqual(parameters);
+    });
+
     it('should return empty cache when file does not exist', async () => {
       const loaded = await persistence.load();
       expect(loaded.size).toBe(0);
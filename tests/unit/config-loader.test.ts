@@ -430,6 +430,305 @@ describe('Config Loader', () => {
       expect(result!.servers).toHaveLength(2); // Both servers present
     });
 
+    it('should let project-level compressPrompts override user-level', async () => {
+      mkdirSync(join(testDir, '.mcp-compression-proxy'), { recursive: true });
+      writeFileSync(
+        join(testDir, '.mcp-compression-proxy', 'servers.json'),
+        JSON.stringify({ compressPrompts: true, mcpServers: [] })
+      );
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify({ compressPrompts: false, mcpServers: [] }));
+
+      const { loadJSONServers } = await importLoader();
+      const result = loadJSONServers();
+
+      expect(result!.compressPrompts).toBe(false);
+    });
+
+    it('should narrow servers and replace patterns with the selected profile', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [
+            { name: 'github', command: 'npx' },
+            { name: 'grafana', command: 'npx' },
+            { name: 'search-web', command: 'npx' },
+            { name: 'search-papers', command: 'npx' },
+          ],
+          excludeTools: ['github__delete_*'],
+          noCompressTools: ['github__create_pr'],
+          profiles: {
+            research: { servers: ['search-*', 'github'], excludeTools: ['github__*'] },
+            ops: { servers: ['grafana'] },
+          },
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+      const research = loadJSONServers('research');
+      const ops = loadJSONServers('ops');
+      const all = loadJSONServers();
+
+      expect(research!.profile).toBe('research');
+      expect(research!.servers.map((s: MCPServerConfig) => s.name)).toEqual(['github', 'search-web', 'search-papers']);
+      expect(research!.excludePatterns).toEqual(['github__*']);
+      expect(research!.noCompressPatterns).toEqual(['github__create_pr']);
+      expect(ops!.servers.map((s: MCPServerConfig) => s.name)).toEqual(['grafana']);
+      expect(all!.profile).toBeUndefined();
+      expect(all!.servers).toHaveLength(4);
+    });
+
+    it('should let project-level profiles replace user-level profiles of the same name', async () => {
+      mkdirSync(join(testDir, '.mcp-compression-proxy'), { recursive: true });
+      writeFileSync(
+        join(testDir, '.mcp-compression-proxy', 'servers.json'),
+        JSON.stringify({
+          mcpServers: [{ name: 'user-server', command: 'npx' }],
+          profiles: { coding: { servers: ['user-server'] }, ops: { servers: ['user-server'] } },
+        })
+      );
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [{ name: 'project-server', command: 'npx' }],
+          profiles: { coding: { servers: ['project-server'] } },
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(loadJSONServers('coding')!.servers.map((s: MCPServerConfig) => s.name)).toEqual(['project-server']);
+      expect(loadJSONServers('ops')!.servers.map((s: MCPServerConfig) => s.name)).toEqual(['user-server']);
+    });
+
+    it('should throw for an unknown profile', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({ mcpServers: [], profiles: { coding: {}, ops: {} } })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers('research')).toThrow(
+        "Unknown profile 'research'. Available profiles: coding, ops"
+      );
+    });
+
+    it('should default the namespace separator and let project-level override user-level', async () => {
+      mkdirSync(join(testDir, '.mcp-compression-proxy'), { recursive: true });
+      writeFileSync(
+        join(testDir, '.mcp-compression-proxy', 'servers.json'),
+        JSON.stringify({ mcpServers: [{ name: 'github', command: 'npx' }] })
+      );
+
+      const { loadJSONServers } = await importLoader();
+      expect(loadJSONServers()!.namespaceSeparator).toBe('__');
+
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify({ namespaceSeparator: '.', mcpServers: [] }));
+      expect(loadJSONServers()!.namespaceSeparator).toBe('.');
+    });
+
+    it('should let project-level tool overrides replace user-level overrides of the same alias', async () => {
+      mkdirSync(join(testDir, '.mcp-compression-proxy'), { recursive: true });
+      writeFileSync(
+        join(testDir, '.mcp-compression-proxy', 'servers.json'),
+        JSON.stringify({
+          mcpServers: [{ name: 'github', command: 'npx' }],
+          toolOverrides: {
+            app_issues: { server: 'github', tool: 'search_issues', fixedArguments: { repo: 'our-org/app' } },
+            my_prs: { server: 'github', tool: 'search_prs', defaultArguments: { author: 'me' } },
+          },
+        })
+      );
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [],
+          toolOverrides: {
+            app_issues: { server: 'github', tool: 'search_issues', fixedArguments: { repo: 'our-org/web' } },
+          },
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+      const result = loadJSONServers();
+
+      expect(result!.toolOverrides).toEqual({
+        app_issues: { server: 'github', tool: 'search_issues', fixedArguments: { repo: 'our-org/web' } },
+        my_prs: { server: 'github', tool: 'search_prs', defaultArguments: { author: 'me' } },
+      });
+    });
+
+    it('should let project-level schemaMinification override user-level', async () => {
+      mkdirSync(join(testDir, '.mcp-compression-proxy'), { recursive: true });
+      writeFileSync(
+        join(testDir, '.mcp-compression-proxy', 'servers.json'),
+        JSON.stringify({ mcpServers: [], schemaMinification: 'safe' })
+      );
+
+      const { loadJSONServers } = await importLoader();
+      expect(loadJSONServers()!.schemaMinification).toBe('safe');
+
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify({ mcpServers: [], schemaMinification: 'aggressive' }));
+      expect(loadJSONServers()!.schemaMinification).toBe('aggressive');
+
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify({ mcpServers: [], schemaMinification: 'maximum' }));
+      expect(() => loadJSONServers()).toThrow(/schemaMinification/);
+    });
+
+    it('should load the compression provider with environment variables expanded', async () => {
+      process.env.TEST_COMPRESSION_KEY = 'sk-test';
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [],
+          compression: {
+            provider: 'openai',
+            baseUrl: 'http://localhost:11434/v1',
+            model: 'llama3.1',
+            apiKey: '${TEST_COMPRESSION_KEY}',
+          },
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(loadJSONServers()!.compression).toEqual({
+        provider: 'openai',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3.1',
+        apiKey: 'sk-test',
+      });
+      delete process.env.TEST_COMPRESSION_KEY;
+    });
+
+    it('should reject a compression provider without a model', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({ mcpServers: [], compression: { provider: 'openai', baseUrl: 'http://localhost:11434/v1' } })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow(/model/);
+    });
+
+    it('should load the sampling provider without an endpoint or model', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({ mcpServers: [], compression: { provider: 'sampling', batchSize: 5, maxTokens: 2000 } })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(loadJSONServers()!.compression).toEqual({ provider: 'sampling', batchSize: 5, maxTokens: 2000 });
+
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({ mcpServers: [], compression: { provider: 'sampling', batchSize: 0 } })
+      );
+      expect(() => loadJSONServers()).toThrow(/batchSize/);
+    });
+
+    it('should reject tool overrides without a backend tool', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({ mcpServers: [], toolOverrides: { app_issues: { server: 'github' } } })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow(/tool/);
+    });
+
+    it('should reject tool aliases using the management tool prefix', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [],
+          toolOverrides: { 'mcp-compression-proxy__stats': { server: 'github', tool: 'search_issues' } },
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow(
+        "Tool aliases must not use the management tool prefix 'mcp-compression-proxy__': mcp-compression-proxy__stats"
+      );
+    });
+
+    it('should reject server names containing the namespace separator', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [
+            { name: 'my__server', command: 'npx' },
+            { name: 'my.server', command: 'npx' },
+          ],
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow(
+        "Server names must not contain the namespace separator '__': my__server"
+      );
+
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({ namespaceSeparator: '.', mcpServers: [{ name: 'my.server', command: 'npx' }] })
+      );
+      expect(() => loadJSONServers()).toThrow(
+        "Server names must not contain the namespace separator '.': my.server"
+      );
+    });
+
+    it('should reject server names containing the resource URI separator', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [
+            { name: 'docs+v2', command: 'npx' },
+            { name: 'docs', command: 'npx' },
+          ],
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow("Server names must not contain the resource URI separator '+': docs+v2");
+    });
+
+    it('should reject server names whose exposed tool names can collide', async () => {
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          mcpServers: [
+            { name: 'a', command: 'npx' },
+            { name: 'a_', command: 'npx' },
+            { name: 'ab', command: 'npx' },
+          ],
+        })
+      );
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow(
+        "Server names produce colliding tool names with the namespace separator '__': a and a_"
+      );
+
+      writeFileSync(
+        join(testDir, 'servers.json'),
+        JSON.stringify({
+          namespaceSeparator: '.',
+          mcpServers: [
+            { name: 'a', command: 'npx' },
+            { name: 'a_', command: 'npx' },
+          ],
+        })
+      );
+      expect(loadJSONServers()!.servers.map((s: { name: string }) => s.name)).toEqual(['a', 'a_']);
+    });
+
     it('should handle empty environment variable substitution', async () => {
       const config = {
         mcpServers: [
@@ -498,6 +797,66 @@ describe('Config Loader', () => {
       expect(result!.excludePatterns).toEqual(['user__*', '*__delete*']);
       expect(result!.noCompressPatterns).toEqual(['filesystem__*', '*__verbose*']);
     });
+
+    it('should load http and sse servers without a command', async () => {
+      process.env.TEST_API_KEY = 'secret';
+
+      const config = {
+        mcpServers: [
+          {
+            name: 'remote',
+            type: 'http',
+            url: 'https://mcp.example.com/mcp',
+            headers: { Authorization: 'Bearer ${TEST_API_KEY}' },
+          },
+          {
+            name: 'legacy',
+            type: 'sse',
+            url: 'https://mcp.example.com/sse',
+          },
+        ],
+      };
+
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify(config));
+
+      const { loadJSONServers } = await importLoader();
+      const result = loadJSONServers();
+
+      expect(result).not.toBeNull();
+      expect(result!.servers[0]).toEqual({
+        name: 'remote',
+        type: 'http',
+        url: 'https://mcp.example.com/mcp',
+        headers: { Authorization: 'Bearer secret' },
+      });
+      expect(result!.servers[1].type).toBe('sse');
+
+      delete process.env.TEST_API_KEY;
+    });
+
+    it('should require url for http servers', async () => {
+      const invalidConfig = {
+        mcpServers: [{ name: 'remote', type: 'http', command: 'npx' }],
+      };
+
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify(invalidConfig));
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow('Invalid server configuration');
+    });
+
+    it('should reject unknown transport types', async () => {
+      const invalidConfig = {
+        mcpServers: [{ name: 'ws-server', type: 'websocket', url: 'ws://localhost:1234' }],
+      };
+
+      writeFileSync(join(testDir, 'servers.json'), JSON.stringify(invalidConfig));
+
+      const { loadJSONServers } = await importLoader();
+
+      expect(() => loadJSONServers()).toThrow('Invalid server configuration');
+    });
   });
 
   describe('getConfigPath', () => {
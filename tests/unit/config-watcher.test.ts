@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { writeFileSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Logger } from 'pino';
+import { ConfigWatcher, diffServerConfigs } from '../../src/config/watcher.js';
+import type { ConfigResult } from '../../src/config/loader.js';
+
+describe('diffServerConfigs', () => {
+  it('should detect added, removed and changed servers', () => {
+    const diff = diffServerConfigs(
+      [
+        { name: 'kept', command: 'node', args: ['a.js'] },
+        { name: 'edited', command: 'node', args: ['old.js'] },
+        { name: 'dropped', command: 'node' },
+      ],
+      [
+        { name: 'kept', command: 'node', args: ['a.js'] },
+        { name: 'edited', command: 'node', args: ['new.js'] },
+        { name: 'fresh', type: 'http', url: 'http://localhost:1234/mcp' },
+      ]
+    );
+
+    expect(diff.added.map((s) => s.name)).toEqual(['fresh']);
+    expect(diff.removed.map((s) => s.name)).toEqual(['dropped']);
+    expect(diff.changed).toEqual([{ name: 'edited', command: 'node', args: ['new.js'] }]);
+  });
+
+  it('should treat disabled servers as absent', () => {
+    const diff = diffServerConfigs(
+      [
+        { name: 'turned-off', command: 'node' },
+        { name: 'turned-on', command: 'node', enabled: false },
+      ],
+      [
+        { name: 'turned-off', command: 'node', enabled: false },
+        { name: 'turned-on', command: 'node', enabled: true },
+      ]
+    );
+
+    expect(diff.added.map((s) => s.name)).toEqual(['turned-on']);
+    expect(diff.removed.map((s) => s.name)).toEqual(['turned-off']);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('should report nothing for identical configs', () => {
+    const servers = [{ name: 'same', command: 'node', env: { A: '1' } }];
+    expect(diffServerConfigs(servers, JSON.parse(JSON.stringify(servers)))).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+});
+
+describe('ConfigWatcher', () => {
+  let testDir: string;
+  let configPath: string;
+  let mockLogger: Logger;
+  let watcher: ConfigWatcher | undefined;
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 3000) => {
+    const start = Date.now();
+    while (!predicate()) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Timed out waiting for condition');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  // fs.watchFile takes its baseline stat asynchronously; let it settle before writing
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mcp-watch-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    configPath = join(testDir, 'servers.json');
+
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reload when a watched file is created or modified', async () => {
+    const reloaded: ConfigResult[] = [];
+    const config: ConfigResult = { servers: [], excludePatterns: ['a__*'], noCompressPatterns: [] };
+
+    watcher = new ConfigWatcher(mockLogger, (c) => { reloaded.push(c); }, {
+      paths: [configPath],
+      intervalMs: 20,
+      debounceMs: 10,
+      loader: () => config,
+    });
+    watcher.start();
+    await settle();
+
+    writeFileSync(configPath, '{"mcpServers": []}');
+    await waitFor(() => reloaded.length === 1);
+
+    writeFileSync(configPath, '{"mcpServers": [], "excludeTools": ["a__*"]}');
+    await waitFor(() => reloaded.length === 2);
+
+    expect(reloaded[1]).toBe(config);
+  });
+
+  it('should keep the current config when the reloaded file is invalid', async () => {
+    const onChange = jest.fn<(config: ConfigResult) => void>();
+
+    watcher = new ConfigWatcher(mockLogger, onChange, {
+      paths: [configPath],
+      intervalMs: 20,
+      debounceMs: 10,
+      loader: () => {
+        throw new Error('Invalid JSON');
+      },
+    });
+    watcher.start();
+    await settle();
+
+    writeFileSync(configPath, '{ broken');
+    await waitFor(() => (mockLogger.error as jest.Mock).mock.calls.length > 0);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.any(Error) }),
+      'Failed to reload configuration, keeping current configuration'
+    );
+  });
+
+  it('should stop reporting changes after stop()', async () => {
+    const onChange = jest.fn<(config: ConfigResult) => void>();
+
+    watcher = new ConfigWatcher(mockLogger, onChange, {
+      paths: [configPath],
+      intervalMs: 20,
+      debounceMs: 10,
+      loader: () => null,
+    });
+    watcher.start();
+    watcher.stop();
+
+    writeFileSync(configPath, '{"mcpServers": []}');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import type { MCPClientManager } from '../../src/mcp/client-manager.js';
+import { HealthService } from '../../src/services/health-service.js';
+
+describe('HealthService', () => {
+  let mockLogger: Logger;
+  let mockClientManager: jest.Mocked<MCPClientManager>;
+  let service: HealthService;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+
+    mockClientManager = {
+      getServerStatuses: jest.fn(),
+      checkAllHealth: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<MCPClientManager>;
+
+    service = new HealthService(mockLogger, mockClientManager);
+  });
+
+  it('reports healthy when every server answers pings', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      { name: 'a', connected: true, latencyMs: 4, lastPingAt: '2026-01-01T00:00:00.000Z', failedPings: 0 },
+      { name: 'lazy', connected: false, idle: true },
+    ]);
+
+    const health = await service.getHealth();
+
+    expect(health.status).toBe('healthy');
+    expect(health.servers).toEqual([
+      expect.objectContaining({ name: 'a', healthy: true, latencyMs: 4, lastPingAt: '2026-01-01T00:00:00.000Z' }),
+      expect.objectContaining({ name: 'lazy', healthy: true }),
+    ]);
+    expect(health.timestamp).toBeDefined();
+    expect(mockClientManager.checkAllHealth).not.toHaveBeenCalled();
+  });
+
+  it('reports degraded when some servers are down, failing pings or tripped', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      { name: 'ok', connected: true },
+      { name: 'slow', connected: true, failedPings: 1, lastPingError: 'Request timed out' },
+      { name: 'down', connected: false, lastError: 'spawn failed' },
+      {
+        name: 'tripped',
+        connected: true,
+        circuit: { state: 'open', recentCalls: 5, recentFailures: 5 },
+      },
+    ]);
+
+    const health = await service.getHealth();
+
+    expect(health.status).toBe('degraded');
+    expect(health.servers.map((s) => s.healthy)).toEqual([true, false, false, false]);
+  });
+
+  it('reports unhealthy when no server is healthy', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      { name: 'down', connected: false },
+    ]);
+
+    const health = await service.getHealth();
+
+    expect(health.status).toBe('unhealthy');
+  });
+
+  it('reports a replicated server healthy while any replica is', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      {
+        name: 'search',
+        connected: true,
+        replicas: [
+          { name: 'search#1', connected: false, lastError: 'Connection closed' },
+          { name: 'search#2', connected: true },
+        ],
+      },
+    ]);
+
+    const health = await service.getHealth();
+
+    expect(health.status).toBe('healthy');
+    expect(health.servers[0].healthy).toBe(true);
+    expect(health.servers[0].replicas!.map((r) => r.healthy)).toEqual([false, true]);
+  });
+
+  it('pings all servers first when refresh is requested', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([]);
+
+    const health = await service.getHealth({ refresh: true });
+
+    expect(mockClientManager.checkAllHealth).toHaveBeenCalled();
+    expect(health.status).toBe('healthy');
+  });
+});
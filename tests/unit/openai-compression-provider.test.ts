@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import { OpenAICompressionProvider } from '../../src/services/openai-compression-provider.js';
+import { DEFAULT_COMPRESSION_PROMPT, parseCompressionOutput } from '../../src/services/compression-provider.js';
+import { startOpenAIStubServer, type OpenAIStubServer } from '../__mocks__/openai-stub-server.js';
+
+describe('OpenAICompressionProvider', () => {
+  const tool = {
+    serverName: 'github',
+    toolName: 'search_issues',
+    description: 'Search issues in a repository using the GitHub search syntax',
+    parameters: { repo: 'Repository as owner/name', query: 'Search query' },
+  };
+
+  let stub: OpenAIStubServer;
+  let mockLogger: Logger;
+
+  beforeAll(async () => {
+    stub = await startOpenAIStubServer();
+  });
+
+  afterAll(async () => {
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    stub.status = 200;
+    stub.reply = () => JSON.stringify({ description: 'Search GH issues', parameters: { repo: 'owner/name' } });
+    mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  });
+
+  it('sends the tool to the chat completions endpoint and parses the reply', async () => {
+    const provider = new OpenAICompressionProvider(mockLogger, {
+      provider: 'openai',
+      baseUrl: `${stub.baseUrl}/`,
+      model: 'llama3.1',
+      apiKey: 'secret',
+    });
+
+    const result = await provider.compress([tool]);
+
+    expect(result).toEqual([{ description: 'Search GH issues', parameters: { repo: 'owner/name' } }]);
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].headers.authorization).toBe('Bearer secret');
+    expect(stub.requests[0].body.model).toBe('llama3.1');
+    expect(stub.requests[0].body.messages[0]).toEqual({ role: 'system', content: DEFAULT_COMPRESSION_PROMPT });
+    expect(JSON.parse(stub.requests[0].body.messages[1].content)).toEqual({
+      tool: 'github/search_issues',
+      description: tool.description,
+      parameters: tool.parameters,
+    });
+  });
+
+  it('uses the configured prompt and omits the authorization header without an API key', async () => {
+    const provider = new OpenAICompressionProvider(mockLogger, {
+      provider: 'openai',
+      baseUrl: stub.baseUrl,
+      model: 'llama3.1',
+      prompt: 'Be terse.',
+    });
+
+    await provider.compress([tool]);
+
+    expect(stub.requests[0].headers.authorization).toBeUndefined();
+    expect(stub.requests[0].body.messages[0].content).toBe('Be terse.');
+  });
+
+  it('rejects on HTTP errors', async () => {
+    stub.status = 500;
+    const provider = new OpenAICompressionProvider(mockLogger, { provider: 'openai', baseUrl: stub.baseUrl, model: 'm' });
+
+    await expect(provider.compress([tool])).rejects.toThrow('Compression request failed with HTTP 500');
+  });
+});
+
+describe('parseCompressionOutput', () => {
+  const tool = {
+    serverName: 'github',
+    toolName: 'search_issues',
+    description: 'Search issues',
+    parameters: { repo: 'Repository as owner/name' },
+  };
+
+  it('reads JSON in a code fence and drops unknown parameters', () => {
+    const text = '```json\n{"description": " Search issues ", "parameters": {"repo": "owner/name", "other": "x"}}\n```';
+
+    expect(parseCompressionOutput(text, tool)).toEqual({
+      description: 'Search issues',
+      parameters: { repo: 'owner/name' },
+    });
+  });
+
+  it('drops parameters named like Object.prototype members that the tool does not have', () => {
+    const text = '{"description": "Search issues", "parameters": {"toString": "x", "constructor": "y"}}';
+
+    expect(parseCompressionOutput(text, tool)).toEqual({ description: 'Search issues' });
+  });
+
+  it('uses plain text replies as the description', () => {
+    expect(parseCompressionOutput('Search GH issues\n', tool)).toEqual({ description: 'Search GH issues' });
+  });
+
+  it('rejects empty and malformed replies', () => {
+    expect(() => parseCompressionOutput('', tool)).toThrow('Invalid compression output for github:search_issues');
+    expect(() => parseCompressionOutput('{"description": ', tool)).toThrow('Invalid compression output');
+    expect(() => parseCompressionOutput('{"description": "  "}', tool)).toThrow('Empty compressed description');
+  });
+});
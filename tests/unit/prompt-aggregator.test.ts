@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { MCPClientManager } from '../../src/mcp/client-manager.js';
+import type { ConfigResult } from '../../src/config/loader.js';
+import { CompressionCache } from '../../src/services/compression-cache.js';
+import type { CompressionPersistence } from '../../src/services/compression-persistence.js';
+import { PromptAggregator } from '../../src/services/prompt-aggregator.js';
+
+describe('PromptAggregator', () => {
+  let mockLogger: Logger;
+  let mockClientManager: jest.Mocked<MCPClientManager>;
+  let gitClient: jest.Mocked<Client>;
+  let toolsOnlyClient: jest.Mocked<Client>;
+  let cache: CompressionCache;
+  let config: NonNullable<ConfigResult>;
+  let aggregator: PromptAggregator;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+
+    gitClient = {
+      getServerCapabilities: jest.fn().mockReturnValue({ prompts: {} }),
+      listPrompts: jest
+        .fn<(params?: { cursor?: string }) => Promise<any>>()
+        .mockImplementation(async (params) =>
+          params?.cursor
+            ? { prompts: [{ name: 'release_notes' }] }
+            : {
+                prompts: [{ name: 'review', description: 'Review the staged changes in detail' }],
+                nextCursor: 'page-2',
+              }
+        ),
+      getPrompt: jest.fn<() => Promise<any>>().mockResolvedValue({
+        messages: [{ role: 'user', content: { type: 'text', text: 'Review this' } }],
+      }),
+    } as unknown as jest.Mocked<Client>;
+
+    toolsOnlyClient = {
+      getServerCapabilities: jest.fn().mockReturnValue({ tools: {} }),
+      listPrompts: jest.fn(),
+    } as unknown as jest.Mocked<Client>;
+
+    mockClientManager = {
+      getConnectedClients: jest.fn().mockReturnValue([
+        { name: 'git', client: gitClient },
+        { name: 'tools', client: toolsOnlyClient },
+      ]),
+      getClient: jest.fn((name: string) => (name === 'git' ? gitClient : undefined)),
+    } as unknown as jest.Mocked<MCPClientManager>;
+
+    cache = new CompressionCache(mockLogger, {} as CompressionPersistence);
+    config = { servers: [], excludePatterns: [], noCompressPatterns: [] };
+    aggregator = new PromptAggregator(mockLogger, mockClientManager, cache, () => config);
+  });
+
+  it('lists all pages of prompts as serverName__promptName', async () => {
+    const prompts = await aggregator.listPrompts();
+
+    expect(prompts).toEqual([
+      { name: 'git__review', description: 'Review the staged changes in detail' },
+      { name: 'git__release_notes', description: undefined },
+    ]);
+    expect(toolsOnlyClient.listPrompts).not.toHaveBeenCalled();
+  });
+
+  it('applies exclude patterns to namespaced prompt names', async () => {
+    config.excludePatterns = ['git__release_*'];
+
+    const prompts = await aggregator.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual(['git__review']);
+    await expect(aggregator.getPrompt('git__release_notes')).rejects.toThrow(
+      "Prompt 'git__release_notes' is excluded by configuration"
+    );
+  });
+
+  it('routes prompts/get to the owning server', async () => {
+    const result = await aggregator.getPrompt('git__review', { scope: 'staged' });
+
+    expect(gitClient.getPrompt).toHaveBeenCalledWith({ name: 'review', arguments: { scope: 'staged' } });
+    expect(result.messages).toHaveLength(1);
+  });
+
+  it('routes prompt names containing the separator and honors a custom separator', async () => {
+    await aggregator.getPrompt('git__review__staged');
+    expect(gitClient.getPrompt).toHaveBeenLastCalledWith({ name: 'review__staged', arguments: undefined });
+
+    config = { ...config!, namespaceSeparator: '.' };
+    await aggregator.getPrompt('git.review');
+    expect(gitClient.getPrompt).toHaveBeenLastCalledWith({ name: 'review', arguments: undefined });
+    expect((await aggregator.listPrompts()).map((p) => p.name)).toEqual(['git.review', 'git.release_notes']);
+  });
+
+  it('rejects malformed names and unavailable servers', async () => {
+    await expect(aggregator.getPrompt('review')).rejects.toThrow('Invalid prompt name format');
+    await expect(aggregator.getPrompt('missing__review')).rejects.toThrow(
+      "Server 'missing' not found or not connected"
+    );
+  });
+
+  it('leaves prompt descriptions uncompressed unless compressPrompts is enabled', async () => {
+    cache.saveCompressed('git', 'prompt__review', 'Review staged', 'Review the staged changes in detail');
+
+    expect((await aggregator.listPrompts())[0].description).toBe('Review the staged changes in detail');
+    expect(await aggregator.listCompressiblePrompts()).toEqual([]);
+
+    config.compressPrompts = true;
+
+    expect((await aggregator.listPrompts())[0].description).toBe('Review staged');
+    expect(await aggregator.listCompressiblePrompts()).toEqual([
+      { serverName: 'git', toolName: 'prompt__review', description: 'Review the staged changes in detail' },
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RateLimiter } from '../../src/mcp/rate-limiter.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows up to maxEvents within the window', () => {
+    const limiter = new RateLimiter(2, 60000);
+
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+  });
+
+  it('frees capacity as events leave the rolling window', () => {
+    const limiter = new RateLimiter(2, 60000);
+
+    limiter.tryAcquire();
+    jest.advanceTimersByTime(30000);
+    limiter.tryAcquire();
+
+    expect(limiter.tryAcquire()).toBe(false);
+    expect(limiter.getRetryAfterMs()).toBe(30000);
+
+    jest.advanceTimersByTime(30000);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+  });
+
+  it('reports no wait while under the limit', () => {
+    const limiter = new RateLimiter(1, 1000);
+
+    expect(limiter.getRetryAfterMs()).toBe(0);
+  });
+});
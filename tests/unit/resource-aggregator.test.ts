@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { MCPClientManager } from '../../src/mcp/client-manager.js';
+import {
+  ResourceAggregator,
+  namespaceResourceUri,
+  parseResourceUri,
+} from '../../src/services/resource-aggregator.js';
+
+describe('ResourceAggregator', () => {
+  let mockLogger: Logger;
+  let mockClientManager: jest.Mocked<MCPClientManager>;
+  let docsClient: jest.Mocked<Client>;
+  let excludePatterns: string[];
+  let aggregator: ResourceAggregator;
+
+  const createClient = (overrides: Record<string, unknown>): jest.Mocked<Client> =>
+    ({
+      getServerCapabilities: jest.fn().mockReturnValue({ resources: {} }),
+      ...overrides,
+    }) as unknown as jest.Mocked<Client>;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+
+    docsClient = createClient({
+      listResources: jest
+        .fn<(params?: { cursor?: string }) => Promise<any>>()
+        .mockImplementation(async (params) =>
+          params?.cursor
+            ? { resources: [{ uri: 'file:///private/keys.txt', name: 'keys' }] }
+            : { resources: [{ uri: 'file:///guide.md', name: 'guide' }], nextCursor: 'page-2' }
+        ),
+      listResourceTemplates: jest.fn<() => Promise<any>>().mockResolvedValue({
+        resourceTemplates: [{ uriTemplate: 'file:///{path}', name: 'file' }],
+      }),
+      readResource: jest.fn<() => Promise<any>>().mockResolvedValue({
+        contents: [{ uri: 'file:///guide.md', text: '# Guide' }],
+      }),
+    });
+
+    const toolsOnlyClient = createClient({
+      getServerCapabilities: jest.fn().mockReturnValue({ tools: {} }),
+      listResources: jest.fn(),
+    });
+
+    mockClientManager = {
+      getConnectedClients: jest.fn().mockReturnValue([
+        { name: 'docs', client: docsClient },
+        { name: 'tools', client: toolsOnlyClient },
+      ]),
+      getClient: jest.fn((name: string) => (name === 'docs' ? docsClient : undefined)),
+    } as unknown as jest.Mocked<MCPClientManager>;
+
+    excludePatterns = [];
+    aggregator = new ResourceAggregator(mockLogger, mockClientManager, () => excludePatterns);
+  });
+
+  it('namespaces and parses resource URIs', () => {
+    expect(namespaceResourceUri('docs', 'file:///a+b.md')).toBe('docs+file:///a+b.md');
+    expect(parseResourceUri('docs+file:///a+b.md')).toEqual({ serverName: 'docs', uri: 'file:///a+b.md' });
+    expect(parseResourceUri('file:///guide.md')).toBeUndefined();
+  });
+
+  it('lists all pages of resources from servers that support them', async () => {
+    const resources = await aggregator.listResources();
+
+    expect(resources).toEqual([
+      { uri: 'docs+file:///guide.md', name: 'guide' },
+      { uri: 'docs+file:///private/keys.txt', name: 'keys' },
+    ]);
+    expect(docsClient.listResources).toHaveBeenCalledWith({ cursor: 'page-2' });
+  });
+
+  it('applies exclude patterns to namespaced resource URIs', async () => {
+    excludePatterns = ['docs+file:///private/*'];
+
+    const resources = await aggregator.listResources();
+
+    expect(resources.map((r) => r.uri)).toEqual(['docs+file:///guide.md']);
+    await expect(aggregator.readResource('docs+file:///private/keys.txt')).rejects.toThrow(
+      "Resource 'docs+file:///private/keys.txt' is excluded by configuration"
+    );
+  });
+
+  it('leaves out servers whose listing fails', async () => {
+    docsClient.listResources.mockRejectedValue(new Error('boom'));
+
+    expect(await aggregator.listResources()).toEqual([]);
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+
+  it('lists namespaced resource templates', async () => {
+    expect(await aggregator.listResourceTemplates()).toEqual([
+      { uriTemplate: 'docs+file:///{path}', name: 'file' },
+    ]);
+  });
+
+  it('routes reads to the owning server and namespaces the returned contents', async () => {
+    const result = await aggregator.readResource('docs+file:///guide.md');
+
+    expect(docsClient.readResource).toHaveBeenCalledWith({ uri: 'file:///guide.md' });
+    expect(result.contents).toEqual([{ uri: 'docs+file:///guide.md', text: '# Guide' }]);
+  });
+
+  it('rejects reads for URIs without a namespace or for unavailable servers', async () => {
+    await expect(aggregator.readResource('file:///guide.md')).rejects.toThrow(
+      "Invalid resource URI 'file:///guide.md'"
+    );
+    await expect(aggregator.readResource('missing+file:///guide.md')).rejects.toThrow(
+      "Server 'missing' not found or not connected"
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import type { CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { SamplingCompressionProvider, type CreateMessage } from '../../src/services/sampling-compression-provider.js';
+import {
+  DEFAULT_BATCH_COMPRESSION_PROMPT,
+  estimateTokens,
+  parseBatchCompressionOutput,
+  splitIntoBatches,
+  type UncompressedTool,
+} from '../../src/services/compression-provider.js';
+
+describe('SamplingCompressionProvider', () => {
+  const tools: UncompressedTool[] = [
+    { serverName: 'github', toolName: 'search_issues', description: 'Search issues', parameters: { repo: 'Repository' } },
+    { serverName: 'github', toolName: 'create_issue', description: 'Create an issue' },
+  ];
+
+  let mockLogger: Logger;
+  let createMessage: jest.Mock<CreateMessage>;
+  let reply: CreateMessageResult['content'];
+
+  beforeEach(() => {
+    mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+    reply = {
+      type: 'text',
+      text: JSON.stringify([
+        { tool: 'github/create_issue', description: 'Create issue' },
+        { tool: 'github/search_issues', description: 'Search issues', parameters: { repo: 'owner/name' } },
+      ]),
+    };
+    createMessage = jest.fn(async () => ({ role: 'assistant' as const, model: 'client-model', content: reply }));
+  });
+
+  it('sends the batch in one sampling request and matches the reply by tool id', async () => {
+    const provider = new SamplingCompressionProvider(mockLogger, {}, createMessage, () => true);
+
+    const result = await provider.compress(tools);
+
+    expect(result).toEqual([
+      { description: 'Search issues', parameters: { repo: 'owner/name' } },
+      { description: 'Create issue' },
+    ]);
+    expect(createMessage).toHaveBeenCalledTimes(1);
+    const [params, options] = createMessage.mock.calls[0];
+    expect(params.systemPrompt).toBe(DEFAULT_BATCH_COMPRESSION_PROMPT);
+    expect(params.maxTokens).toBe(4000);
+    expect(params.includeContext).toBe('none');
+    expect(JSON.parse((params.messages[0].content as { text: string }).text)).toEqual([
+      { tool: 'github/search_issues', description: 'Search issues', parameters: { repo: 'Repository' } },
+      { tool: 'github/create_issue', description: 'Create an issue' },
+    ]);
+    expect(options.timeout).toBe(120000);
+  });
+
+  it('uses the configured batch size, token budget, prompt and timeout', async () => {
+    const provider = new SamplingCompressionProvider(
+      mockLogger,
+      { batchSize: 3, maxTokens: 500, prompt: 'Be terse.', timeout: 30 },
+      createMessage,
+      () => true
+    );
+
+    await provider.compress(tools);
+
+    expect(provider.batchSize).toBe(3);
+    expect(provider.maxTokens).toBe(500);
+    const [params, options] = createMessage.mock.calls[0];
+    expect(params.systemPrompt).toBe('Be terse.');
+    expect(params.maxTokens).toBe(500);
+    expect(options.timeout).toBe(30000);
+  });
+
+  it('is only available when the client supports sampling', () => {
+    let supported = false;
+    const provider = new SamplingCompressionProvider(mockLogger, {}, createMessage, () => supported);
+
+    expect(provider.isAvailable()).toBe(false);
+    supported = true;
+    expect(provider.isAvailable()).toBe(true);
+  });
+
+  it('rejects non-text replies', async () => {
+    reply = { type: 'image', data: 'aGk=', mimeType: 'image/png' };
+    const provider = new SamplingCompressionProvider(mockLogger, {}, createMessage, () => true);
+
+    await expect(provider.compress(tools)).rejects.toThrow('Sampling returned image content instead of text');
+  });
+});
+
+describe('splitIntoBatches', () => {
+  const tools: UncompressedTool[] = Array.from({ length: 5 }, (_, i) => ({
+    serverName: 'db',
+    toolName: `tool${i}`,
+    description: 'x'.repeat(400),
+  }));
+
+  it('sends one tool per batch by default', () => {
+    expect(splitIntoBatches(tools).map((batch) => batch.length)).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  it('limits batches by size and estimated tokens', () => {
+    const tokens = estimateTokens(tools[0]);
+
+    expect(splitIntoBatches(tools, 2).map((batch) => batch.length)).toEqual([2, 2, 1]);
+    expect(splitIntoBatches(tools, 10, tokens * 3).map((batch) => batch.length)).toEqual([3, 2]);
+  });
+
+  it('gives a tool larger than the budget a batch of its own', () => {
+    expect(splitIntoBatches(tools, 10, 1).map((batch) => batch.length)).toEqual([1, 1, 1, 1, 1]);
+  });
+});
+
+describe('parseBatchCompressionOutput', () => {
+  const tools: UncompressedTool[] = [
+    { serverName: 'github', toolName: 'search_issues', description: 'Search issues', parameters: { repo: 'Repository' } },
+    { serverName: 'github', toolName: 'create_issue', description: 'Create an issue' },
+  ];
+
+  it('reads a JSON array in a code fence and leaves out tools missing from the reply', () => {
+    const text =
+      '```json\n[{"tool": "github/search_issues", "description": " Search ", "parameters": {"repo": "repo", "x": "y"}}, ' +
+      '{"tool": "github/unknown", "description": "?"}]\n```';
+
+    expect(parseBatchCompressionOutput(text, tools)).toEqual([
+      { description: 'Search', parameters: { repo: 'repo' } },
+      undefined,
+    ]);
+  });
+
+  it('treats entries with empty descriptions as missing', () => {
+    const text = JSON.stringify([{ tool: 'github/create_issue', description: ' ' }]);
+
+    expect(parseBatchCompressionOutput(text, tools)).toEqual([undefined, undefined]);
+  });
+
+  it('rejects replies that are not a JSON array', () => {
+    expect(() => parseBatchCompressionOutput('{"description": "x"}', tools)).toThrow(
+      'Invalid batch compression output: expected a JSON array'
+    );
+    expect(() => parseBatchCompressionOutput('Short descriptions', tools)).toThrow('expected a JSON array');
+  });
+});
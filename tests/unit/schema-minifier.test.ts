@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { minifySchema, MAX_ENUM_VALUES } from '../../src/services/schema-minifier.js';
+
+describe('minifySchema', () => {
+  const countries = Array.from({ length: MAX_ENUM_VALUES + 1 }, (_, i) => `country-${i}`);
+
+  const schema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    title: 'Create issue input',
+    $comment: 'Generated from the API spec',
+    properties: {
+      title: { type: 'string', title: 'Title', description: 'Issue title', examples: ['Crash on start'] },
+      state: { type: 'string', enum: ['open', 'closed'], enumDescriptions: ['Open', 'Closed'], default: 'open' },
+      country: { type: 'string', enum: countries },
+      labels: {
+        type: 'array',
+        items: { type: 'object', title: 'Label', properties: { name: { type: 'string' } }, additionalProperties: false },
+      },
+      meta: { anyOf: [{ type: 'string', examples: ['x'] }, { type: 'null' }] },
+    },
+    required: ['title'],
+    additionalProperties: true,
+  };
+
+  it('returns the schema unchanged for level none', () => {
+    expect(minifySchema(schema, 'none')).toBe(schema);
+  });
+
+  it('strips annotations but keeps constraints in safe mode', () => {
+    expect(minifySchema(schema, 'safe')).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Issue title' },
+        state: { type: 'string', enum: ['open', 'closed'], default: 'open' },
+        country: { type: 'string', enum: countries },
+        labels: {
+          type: 'array',
+          items: { type: 'object', properties: { name: { type: 'string' } }, additionalProperties: false },
+        },
+        meta: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['title'],
+    });
+  });
+
+  it('also drops defaults and long enums in aggressive mode', () => {
+    expect(minifySchema(schema, 'aggressive')).toEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Issue title' },
+        state: { type: 'string', enum: ['open', 'closed'] },
+        country: { type: 'string' },
+        labels: {
+          type: 'array',
+          items: { type: 'object', properties: { name: { type: 'string' } }, additionalProperties: false },
+        },
+        meta: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['title'],
+    });
+  });
+
+  it.each(['safe', 'aggressive'] as const)(
+    'keeps additionalProperties that constrain extra keys in %s mode',
+    (level) => {
+      const constrained = {
+        type: 'object',
+        properties: {
+          tags: { type: 'object', additionalProperties: { type: 'string', title: 'Tag value' } },
+          options: { type: 'object', additionalProperties: {} },
+        },
+        additionalProperties: false,
+      };
+
+      expect(minifySchema(constrained, level)).toEqual({
+        type: 'object',
+        properties: {
+          tags: { type: 'object', additionalProperties: { type: 'string' } },
+          options: { type: 'object' },
+        },
+        additionalProperties: false,
+      });
+    }
+  );
+
+  it('keeps property names that match keywords and leaves the input untouched', () => {
+    const result = minifySchema(schema, 'aggressive');
+
+    expect(Object.keys(result.properties)).toContain('title');
+    expect(schema.title).toBe('Create issue input');
+    expect(schema.properties.state.default).toBe('open');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Logger } from 'pino';
+import { ServerLogStore } from '../../src/services/server-log-store.js';
+
+describe('ServerLogStore', () => {
+  let mockLogger: Logger;
+  let testDir: string;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+
+    testDir = join(tmpdir(), `mcp-logs-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should split output into lines and keep partial lines until completed', () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir });
+
+    store.write('db', 'first line\nsecond ');
+    expect(store.getLines('db', 10)).toEqual(['first line', 'second ']);
+
+    store.write('db', 'line\r\nthird\n');
+    expect(store.getLines('db', 10)).toEqual(['first line', 'second line', 'third']);
+  });
+
+  it('should keep only the most recent maxLines lines', () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir, maxLines: 3 });
+
+    for (let i = 1; i <= 5; i++) {
+      store.write('db', `line ${i}\n`);
+    }
+
+    expect(store.getLines('db', 10)).toEqual(['line 3', 'line 4', 'line 5']);
+    expect(store.getLines('db', 2)).toEqual(['line 4', 'line 5']);
+  });
+
+  it('should return no lines for unknown servers', () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir });
+
+    expect(store.getLines('missing', 10)).toEqual([]);
+    expect(store.hasLogs('missing')).toBe(false);
+  });
+
+  it('should capture an attached stream and flush the last line on end', async () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir });
+    const stream = new PassThrough();
+
+    store.attach('db', stream);
+    stream.write(Buffer.from('starting\nfatal: no credentials'));
+    stream.end();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(store.getLines('db', 10)).toEqual(['starting', 'fatal: no credentials']);
+  });
+
+  it('should forget buffered lines on clear', () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir });
+
+    store.write('db', 'hello\n');
+    store.clear('db');
+
+    expect(store.getLines('db', 10)).toEqual([]);
+  });
+
+  it('should mirror lines to a log file when requested', async () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir });
+    const stream = new PassThrough();
+
+    store.attach('my server', stream, true);
+    stream.write('one\ntwo\n');
+    await new Promise((resolve) => setImmediate(resolve));
+    await store.flush();
+
+    const file = store.getLogFilePath('my server');
+    expect(file).toBe(join(testDir, 'my_server.log'));
+    expect(readFileSync(file, 'utf-8')).toBe('one\ntwo\n');
+  });
+
+  it('should rotate log files that exceed maxFileBytes', async () => {
+    const store = new ServerLogStore(mockLogger, { logDir: testDir, maxFileBytes: 10, maxFiles: 2 });
+    const stream = new PassThrough();
+    store.attach('db', stream, true);
+
+    for (const line of ['aaaaaaaaaa', 'bbbbbbbbbb', 'cccccccccc', 'dddddddddd']) {
+      stream.write(`${line}\n`);
+      await new Promise((resolve) => setImmediate(resolve));
+      await store.flush();
+    }
+
+    const file = store.getLogFilePath('db');
+    expect(readFileSync(file, 'utf-8')).toBe('dddddddddd\n');
+    expect(readFileSync(`${file}.1`, 'utf-8')).toBe('cccccccccc\n');
+    expect(readFileSync(`${file}.2`, 'utf-8')).toBe('bbbbbbbbbb\n');
+    expect(existsSync(`${file}.3`)).toBe(false);
+  });
+});
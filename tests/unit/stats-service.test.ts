@@ -32,11 +32,11 @@ describe('StatsService', () => {
     sessionManager = new SessionManager(mockLogger);
 
     mockClientManager = {
-      getConnectedClients: jest.fn(),
       getServerStatuses: jest.fn(),
       initializeServers: jest.fn(),
       disconnectAll: jest.fn(),
       getClient: jest.fn(),
+      getServerTools: jest.fn().mockReturnValue(undefined),
       hasConnectedServers: jest.fn(),
     } as unknown as jest.Mocked<MCPClientManager>;
   });
@@ -46,16 +46,10 @@ describe('StatsService', () => {
   });
 
   it('returns summary and full stats including coverage, cache, sessions, and config', async () => {
-    const listTools = async () => ({
-      tools: [
-        { name: 'read', description: 'read original' },
-        { name: 'write', description: 'write original' },
-        { name: 'skip_me', description: 'skip original' },
-      ],
-    });
-
-    mockClientManager.getConnectedClients.mockReturnValue([
-      { name: 'serverA', client: { listTools } as any },
+    mockClientManager.getServerTools.mockReturnValue([
+      { name: 'read', description: 'read original', inputSchema: { type: 'object' } },
+      { name: 'write', description: 'write original', inputSchema: { type: 'object' } },
+      { name: 'skip_me', description: 'skip original', inputSchema: { type: 'object' } },
     ]);
     mockClientManager.getServerStatuses.mockReturnValue([
       { name: 'serverA', connected: true },
@@ -73,6 +67,8 @@ describe('StatsService', () => {
       excludePatterns: ['serverA__skip_*'],
       noCompressPatterns: ['serverA__no_compress_*'],
       defaultTimeout: 30,
+      profile: 'coding',
+      schemaMinification: 'safe' as const,
     });
 
     const service = new StatsService(
@@ -116,12 +112,13 @@ describe('StatsService', () => {
     expect(stats.sessions.sessions?.[0].sessionId).toBe(sessionId);
 
     // Config echo
+    expect(stats.config.profile).toBe('coding');
+    expect(stats.config.schemaMinification).toBe('safe');
     expect(stats.config.excludePatterns).toContain('serverA__skip_*');
     expect(stats.config.noCompressPatterns).toContain('serverA__no_compress_*');
   });
 
   it('throws a clear error for unknown servers', async () => {
-    mockClientManager.getConnectedClients.mockReturnValue([]);
     mockClientManager.getServerStatuses.mockReturnValue([]);
 
     const service = new StatsService(
@@ -138,7 +135,6 @@ describe('StatsService', () => {
   });
 
   it('keeps disconnected servers in the report with errors noted', async () => {
-    mockClientManager.getConnectedClients.mockReturnValue([]);
     mockClientManager.getServerStatuses.mockReturnValue([
       { name: 'offline', connected: false, lastError: 'Connection failed' } as any,
     ]);
@@ -158,4 +154,168 @@ describe('StatsService', () => {
     expect(stats.servers[0].error).toBe('Connection failed');
     expect(stats.summary.serversWithErrors).toBe(1);
   });
+
+  it('reports restart counts and the last crash reason per server', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      { name: 'flaky', connected: true, restarts: 2, lastCrashReason: 'Connection closed unexpectedly' },
+      { name: 'down', connected: false, lastError: 'spawn failed', restarts: 1, lastCrashReason: 'spawn failed' },
+    ]);
+
+    const service = new StatsService(
+      mockLogger,
+      mockClientManager,
+      cache,
+      sessionManager,
+      () => ({ servers: [], excludePatterns: [], noCompressPatterns: [] })
+    );
+
+    const stats = await service.getStats();
+
+    expect(stats.summary.serverRestarts).toBe(3);
+    expect(stats.servers.find((s) => s.name === 'flaky')).toEqual(
+      expect.objectContaining({ restarts: 2, lastCrashReason: 'Connection closed unexpectedly' })
+    );
+    expect(stats.servers.find((s) => s.name === 'down')).toEqual(
+      expect.objectContaining({ connected: false, restarts: 1, lastCrashReason: 'spawn failed' })
+    );
+  });
+
+  it('reports call queue statistics for servers with concurrency limits', async () => {
+    const callQueue = {
+      maxConcurrentCalls: 2,
+      maxQueueLength: 5,
+      activeCalls: 2,
+      queuedCalls: 3,
+      rejectedCalls: 4,
+      averageWaitMs: 120,
+      maxWaitMs: 900,
+    };
+    mockClientManager.getServerStatuses.mockReturnValue([
+      { name: 'db', connected: true, restarts: 0, callQueue },
+    ]);
+
+    const service = new StatsService(
+      mockLogger,
+      mockClientManager,
+      cache,
+      sessionManager,
+      () => ({ servers: [], excludePatterns: [], noCompressPatterns: [] })
+    );
+
+    const stats = await service.getStats();
+
+    expect(stats.summary.callsQueued).toBe(3);
+    expect(stats.summary.callsRejected).toBe(4);
+    expect(stats.servers[0].callQueue).toEqual(callQueue);
+  });
+
+  it('reports circuit breaker state per server', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      {
+        name: 'db',
+        connected: true,
+        restarts: 0,
+        circuit: { state: 'open', recentCalls: 5, recentFailures: 5, lastFailure: 'timed out' },
+      },
+      {
+        name: 'search',
+        connected: true,
+        restarts: 0,
+        circuit: { state: 'closed', recentCalls: 3, recentFailures: 0 },
+      },
+    ]);
+
+    const service = new StatsService(
+      mockLogger,
+      mockClientManager,
+      cache,
+      sessionManager,
+      () => ({ servers: [], excludePatterns: [], noCompressPatterns: [] })
+    );
+
+    const stats = await service.getStats();
+
+    expect(stats.summary.openCircuits).toBe(1);
+    expect(stats.servers.find((s) => s.name === 'db')?.circuit).toEqual(
+      expect.objectContaining({ state: 'open', lastFailure: 'timed out' })
+    );
+  });
+
+  it('counts queued calls and open circuits of each replica and reports them per replica', async () => {
+    const replica = (name: string, queuedCalls: number, state: 'open' | 'closed') => ({
+      name,
+      connected: true,
+      restarts: 0,
+      callQueue: { maxConcurrentCalls: 1, activeCalls: 1, queuedCalls, rejectedCalls: 1, averageWaitMs: 0, maxWaitMs: 0 },
+      circuit: { state, recentCalls: 5, recentFailures: state === 'open' ? 5 : 0 },
+    });
+    mockClientManager.getServerStatuses.mockReturnValue([
+      {
+        name: 'search',
+        connected: true,
+        restarts: 0,
+        replicas: [replica('search#1', 2, 'open'), replica('search#2', 1, 'closed')],
+      },
+    ]);
+
+    const service = new StatsService(
+      mockLogger,
+      mockClientManager,
+      cache,
+      sessionManager,
+      () => ({ servers: [], excludePatterns: [], noCompressPatterns: [] })
+    );
+
+    const stats = await service.getStats();
+
+    expect(stats.summary.callsQueued).toBe(3);
+    expect(stats.summary.callsRejected).toBe(2);
+    expect(stats.summary.openCircuits).toBe(1);
+    expect(stats.servers[0].replicas).toEqual([
+      expect.objectContaining({
+        name: 'search#1',
+        connected: true,
+        restarts: 0,
+        circuit: expect.objectContaining({ state: 'open' }),
+      }),
+      expect.objectContaining({
+        name: 'search#2',
+        connected: true,
+        restarts: 0,
+        callQueue: expect.objectContaining({ queuedCalls: 1 }),
+      }),
+    ]);
+  });
+
+  it('reports idle lazy servers from their catalogued tool listing', async () => {
+    mockClientManager.getServerStatuses.mockReturnValue([
+      { name: 'lazy', connected: false, idle: true, restarts: 0 },
+    ]);
+    mockClientManager.getServerTools.mockReturnValue([
+      { name: 'query', description: 'query original', inputSchema: { type: 'object' } },
+      { name: 'drop', description: 'drop original', inputSchema: { type: 'object' } },
+    ]);
+    cache.saveCompressed('lazy', 'query', 'query cmp', 'query original');
+
+    const service = new StatsService(
+      mockLogger,
+      mockClientManager,
+      cache,
+      sessionManager,
+      () => ({ servers: [], excludePatterns: [], noCompressPatterns: [] })
+    );
+
+    const stats = await service.getStats();
+
+    expect(stats.servers[0]).toEqual(
+      expect.objectContaining({
+        name: 'lazy',
+        connected: false,
+        idle: true,
+        toolsTotal: 2,
+        toolsCompressed: 1,
+      })
+    );
+    expect(stats.summary.serversWithErrors).toBe(0);
+  });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ToolCatalogPersistence } from '../../src/services/tool-catalog-persistence.js';
+import type { Logger } from 'pino';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ToolCatalogPersistence', () => {
+  let persistence: ToolCatalogPersistence;
+  let mockLogger: Logger;
+  let testCatalogDir: string;
+
+  const readFileTool = {
+    name: 'read_file',
+    description: 'Read a file',
+    inputSchema: {
+      type: 'object' as const,
+      properties: { path: { type: 'string' } },
+      required: ['path'],
+    },
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+
+    testCatalogDir = path.join(os.tmpdir(), `mcp-catalog-test-${Date.now()}`);
+    persistence = new ToolCatalogPersistence(mockLogger, testCatalogDir);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testCatalogDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should save and load tool listings per server', async () => {
+    await persistence.save(
+      new Map([
+        ['filesystem', [readFileTool]],
+        ['empty', []],
+      ])
+    );
+
+    const loaded = await persistence.load();
+
+    expect(loaded.size).toBe(2);
+    expect(loaded.get('filesystem')).toEqual([readFileTool]);
+    expect(loaded.get('empty')).toEqual([]);
+  });
+
+  it('should return an empty catalog when the file does not exist', async () => {
+    const loaded = await persistence.load();
+    expect(loaded.size).toBe(0);
+  });
+
+  it('should ignore catalogs written with a different version', async () => {
+    await fs.mkdir(testCatalogDir, { recursive: true });
+    await fs.writeFile(
+      persistence.getCatalogFilePath(),
+      JSON.stringify({ version: 99, lastUpdated: '', servers: { filesystem: { tools: [readFileTool] } } })
+    );
+
+    const loaded = await persistence.load();
+
+    expect(loaded.size).toBe(0);
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should log and recover from corrupted catalog files', async () => {
+    await fs.mkdir(testCatalogDir, { recursive: true });
+    await fs.writeFile(persistence.getCatalogFilePath(), '{ not json');
+
+    const loaded = await persistence.load();
+
+    expect(loaded.size).toBe(0);
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+
+  it('should store the catalog next to the compression cache', () => {
+    expect(persistence.getCatalogFilePath()).toBe(path.join(testCatalogDir, 'tool-catalog.json'));
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Logger } from 'pino';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolCatalog } from '../../src/services/tool-catalog.js';
+import type { ToolCatalogPersistence } from '../../src/services/tool-catalog-persistence.js';
+
+describe('ToolCatalog', () => {
+  const queryTool: Tool = { name: 'query', description: 'Run a query', inputSchema: { type: 'object' } };
+  const migrateTool: Tool = { name: 'migrate', description: 'Run migrations', inputSchema: { type: 'object' } };
+
+  let mockLogger: Logger;
+  let mockPersistence: jest.Mocked<ToolCatalogPersistence>;
+  let catalog: ToolCatalog;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+
+    mockPersistence = {
+      load: jest.fn<() => Promise<Map<string, Tool[]>>>().mockResolvedValue(new Map()),
+      save: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ToolCatalogPersistence>;
+
+    catalog = new ToolCatalog(mockLogger, mockPersistence);
+  });
+
+  it('indexes listings by server and tool name', async () => {
+    await catalog.setServerTools('db', [queryTool, migrateTool]);
+
+    expect(catalog.hasServer('db')).toBe(true);
+    expect(catalog.getServerTools('db')).toEqual([queryTool, migrateTool]);
+    expect(catalog.getTool('db', 'migrate')).toEqual(migrateTool);
+    expect(catalog.getTool('db', 'missing')).toBeUndefined();
+    expect(catalog.getServerTools('other')).toBeUndefined();
+    expect(mockPersistence.save).not.toHaveBeenCalled();
+  });
+
+  it('replaces a listing when the server reports new tools', async () => {
+    await catalog.setServerTools('db', [queryTool]);
+    await catalog.setServerTools('db', [migrateTool]);
+
+    expect(catalog.getServerTools('db')).toEqual([migrateTool]);
+    expect(catalog.getTool('db', 'query')).toBeUndefined();
+  });
+
+  it('persists only the listings saved with persist', async () => {
+    await catalog.setServerTools('eager', [queryTool]);
+    await catalog.setServerTools('lazy', [migrateTool], true);
+
+    expect(mockPersistence.save).toHaveBeenCalledWith(new Map([['lazy', [migrateTool]]]));
+  });
+
+  it('loads persisted listings once without overwriting newer ones', async () => {
+    mockPersistence.load.mockResolvedValue(
+      new Map([
+        ['db', [queryTool]],
+        ['search', [queryTool]],
+      ])
+    );
+    await catalog.setServerTools('db', [migrateTool]);
+
+    await catalog.load();
+    await catalog.load();
+
+    expect(mockPersistence.load).toHaveBeenCalledTimes(1);
+    expect(catalog.getServerTools('db')).toEqual([migrateTool]);
+    expect(catalog.getServerTools('search')).toEqual([queryTool]);
+
+    // Loaded listings stay persisted when another server is saved
+    await catalog.setServerTools('cache', [queryTool], true);
+    expect(mockPersistence.save).toHaveBeenCalledWith(
+      new Map([
+        ['db', [migrateTool]],
+        ['search', [queryTool]],
+        ['cache', [queryTool]],
+      ])
+    );
+  });
+
+  it('removes a listing and drops it from disk when it was persisted', async () => {
+    await catalog.setServerTools('eager', [queryTool]);
+    await catalog.setServerTools('lazy', [migrateTool], true);
+    mockPersistence.save.mockClear();
+
+    await catalog.removeServer('eager');
+    expect(catalog.hasServer('eager')).toBe(false);
+    expect(mockPersistence.save).not.toHaveBeenCalled();
+
+    await catalog.removeServer('lazy');
+    expect(catalog.hasServer('lazy')).toBe(false);
+    expect(mockPersistence.save).toHaveBeenCalledWith(new Map());
+  });
+
+  it('writes saves one after another with the latest listings', async () => {
+    let finishFirst!: () => void;
+    mockPersistence.save.mockImplementationOnce(() => new Promise<void>((resolve) => (finishFirst = resolve)));
+
+    const first = catalog.setServerTools('db', [queryTool], true);
+    const second = catalog.setServerTools('search', [migrateTool], true);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(mockPersistence.save).toHaveBeenCalledTimes(1);
+
+    finishFirst();
+    await Promise.all([first, second]);
+
+    expect(mockPersistence.save).toHaveBeenCalledTimes(2);
+    expect(mockPersistence.save).toHaveBeenLastCalledWith(
+      new Map([
+        ['db', [queryTool]],
+        ['search', [migrateTool]],
+      ])
+    );
+  });
+
+  it('keeps saving after a failed write', async () => {
+    mockPersistence.save.mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(catalog.setServerTools('db', [queryTool], true)).rejects.toThrow('disk full');
+    await catalog.setServerTools('search', [migrateTool], true);
+
+    expect(mockPersistence.save).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolNamespace, splitNamespacedName } from '../../src/services/tool-namespace.js';
+
+describe('ToolNamespace', () => {
+  const tool = (name: string): Tool => ({ name, inputSchema: { type: 'object' } });
+
+  let listing: Array<{ name: string; tools: Tool[] }>;
+  let listTools: jest.Mock<() => Array<{ name: string; tools: Tool[] }>>;
+  let namespace: ToolNamespace;
+
+  beforeEach(() => {
+    listing = [
+      { name: 'github', tools: [tool('create_issue'), tool('repo__status')] },
+      { name: 'db', tools: [tool('query')] },
+    ];
+    listTools = jest.fn(() => listing);
+    namespace = new ToolNamespace(listTools);
+  });
+
+  it('joins server and tool names with the separator', () => {
+    expect(namespace.qualify('github', 'create_issue')).toBe('github__create_issue');
+
+    namespace.setSeparator('.');
+
+    expect(namespace.getSeparator()).toBe('.');
+    expect(namespace.qualify('github', 'create_issue')).toBe('github.create_issue');
+  });
+
+  it('resolves exposed names through the catalogued tools, including names containing the separator', () => {
+    expect(namespace.resolve('github__repo__status')).toEqual({ serverName: 'github', name: 'repo__status' });
+    expect(namespace.resolve('db__query')).toEqual({ serverName: 'db', name: 'query' });
+    expect(listTools).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the lookup across misses and rebuilds it once invalidated', () => {
+    namespace.resolve('db__query');
+    listing = [{ name: 'db', tools: [tool('query'), tool('repo__migrate')] }];
+
+    expect(namespace.isBackendTool('app_issues')).toBe(false);
+    expect(namespace.isBackendTool('db__repo__migrate')).toBe(false);
+    expect(namespace.resolve('github__create_issue')).toEqual({ serverName: 'github', name: 'create_issue' });
+    expect(listTools).toHaveBeenCalledTimes(1);
+
+    namespace.invalidate();
+
+    expect(namespace.isBackendTool('db__repo__migrate')).toBe(true);
+    expect(namespace.isBackendTool('github__create_issue')).toBe(false);
+    expect(listTools).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to splitting uncatalogued names at the first separator', () => {
+    expect(namespace.resolve('cache__flush__all')).toEqual({ serverName: 'cache', name: 'flush__all' });
+    expect(namespace.resolve('no_separator')).toBeUndefined();
+  });
+
+  it('tells exposed backend tool names from other names', () => {
+    expect(namespace.isBackendTool('github__repo__status')).toBe(true);
+    expect(namespace.isBackendTool('cache__flush__all')).toBe(false);
+    expect(namespace.isBackendTool('app_issues')).toBe(false);
+  });
+
+  it('resolves with a custom separator', () => {
+    namespace.setSeparator('.');
+
+    expect(namespace.resolve('github.repo__status')).toEqual({ serverName: 'github', name: 'repo__status' });
+    expect(namespace.resolve('github__create_issue')).toBeUndefined();
+  });
+});
+
+describe('splitNamespacedName', () => {
+  it('splits at the first separator', () => {
+    expect(splitNamespacedName('git__review__staged', '__')).toEqual({ serverName: 'git', name: 'review__staged' });
+  });
+
+  it('rejects names without a server or backend name', () => {
+    expect(splitNamespacedName('__review', '__')).toBeUndefined();
+    expect(splitNamespacedName('git__', '__')).toBeUndefined();
+    expect(splitNamespacedName('review', '__')).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { ToolOverrideConfig } from '../../src/types/index.js';
+import {
+  ToolOverrides,
+  applyPinnedArguments,
+  mergePinnedArguments,
+} from '../../src/services/tool-overrides.js';
+
+describe('tool overrides', () => {
+  const searchIssues: Tool = {
+    name: 'search_issues',
+    description: 'Search issues in a repository',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        repo: { type: 'string' },
+        query: { type: 'string' },
+        state: { type: 'string' },
+      },
+      required: ['repo', 'query', 'state'],
+    },
+  };
+
+  const override: ToolOverrideConfig = {
+    server: 'github',
+    tool: 'search_issues',
+    fixedArguments: { repo: 'our-org/app' },
+    defaultArguments: { state: 'open' },
+  };
+
+  describe('applyPinnedArguments', () => {
+    it('removes fixed arguments and makes default arguments optional', () => {
+      const schema = applyPinnedArguments(searchIssues.inputSchema, override);
+
+      expect(schema.properties).toEqual({
+        query: { type: 'string' },
+        state: { type: 'string', default: 'open' },
+      });
+      expect(schema.required).toEqual(['query']);
+    });
+
+    it('does not modify the backend schema', () => {
+      applyPinnedArguments(searchIssues.inputSchema, override);
+
+      expect(searchIssues.inputSchema.properties).toHaveProperty('repo');
+      expect(searchIssues.inputSchema.required).toEqual(['repo', 'query', 'state']);
+    });
+  });
+
+  describe('mergePinnedArguments', () => {
+    it('fills in defaults and always applies fixed arguments', () => {
+      expect(mergePinnedArguments(override, { query: 'bug' })).toEqual({
+        repo: 'our-org/app',
+        query: 'bug',
+        state: 'open',
+      });
+      expect(mergePinnedArguments(override, { query: 'bug', state: 'closed', repo: 'other/repo' })).toEqual({
+        repo: 'our-org/app',
+        query: 'bug',
+        state: 'closed',
+      });
+    });
+  });
+
+  describe('ToolOverrides', () => {
+    const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+    const overrides = new ToolOverrides(
+      mockLogger,
+      () => ({
+        app_issues: override,
+        missing_tool: { server: 'github', tool: 'delete_repo' },
+        missing_server: { server: 'jira', tool: 'search_issues' },
+        github__create_issue: { server: 'github', tool: 'search_issues' },
+      }),
+      (name) => name === 'github__create_issue'
+    );
+
+    it('looks up overrides by exposed name', () => {
+      expect(overrides.get('app_issues')).toBe(override);
+      expect(overrides.get('github__search_issues')).toBeUndefined();
+      expect(overrides.get('toString')).toBeUndefined();
+    });
+
+    it('lists only aliases whose backend tool is available', () => {
+      const aliases = overrides.listAliases([{ name: 'github', tools: [searchIssues] }]);
+
+      expect(aliases).toEqual([
+        { alias: 'app_issues', serverName: 'github', backendTool: searchIssues, override },
+      ]);
+    });
+
+    it('ignores aliases that match the exposed name of a backend tool', () => {
+      expect(overrides.get('github__create_issue')).toBeUndefined();
+      expect(overrides.listAliases([{ name: 'github', tools: [searchIssues] }]).map(({ alias }) => alias)).toEqual([
+        'app_issues',
+      ]);
+      expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+    });
+  });
+});